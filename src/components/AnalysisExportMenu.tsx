@@ -0,0 +1,71 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { FileJson, FileSpreadsheet } from 'lucide-react';
+import {
+  AnalysisExport,
+  CSV_TABLES,
+  CsvTable,
+  exportCsv,
+  exportJson,
+  exportNdjson,
+} from '@/utils/analysisExport';
+import { downloadBlob, fileBaseName } from '@/utils/download';
+
+const CSV_TABLE_LABELS: Record<CsvTable, string> = {
+  frames: 'Frames (bola, cena, calibração)',
+  tracks: 'Trilhas de pessoas',
+  poses: 'Poses dos jogadores',
+  hits: 'Golpes',
+  bounces: 'Quiques',
+  rallies: 'Pontos',
+  stats: 'Estatísticas',
+};
+
+interface AnalysisExportMenuProps {
+  // Montado só no clique, para não serializar a análise a cada renderização
+  createExport: () => AnalysisExport;
+}
+
+export const AnalysisExportMenu = ({ createExport }: AnalysisExportMenuProps) => {
+  const download = (build: (exported: AnalysisExport) => Blob, suffix: string) => {
+    const exported = createExport();
+    downloadBlob(build(exported), `${fileBaseName(exported.source.label, 'analise')}${suffix}`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button className="w-full" variant="outline">
+          <FileJson className="h-4 w-4 mr-2" />
+          Exportar Dados
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-64">
+        <DropdownMenuLabel>Análise completa</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => download(exportJson, '.analise.json')}>
+          <FileJson className="h-4 w-4 mr-2" />
+          JSON (reabre neste aplicativo)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => download(exportNdjson, '.analise.ndjson')}>
+          <FileJson className="h-4 w-4 mr-2" />
+          NDJSON (um registro por linha)
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Tabelas CSV</DropdownMenuLabel>
+        {CSV_TABLES.map(table => (
+          <DropdownMenuItem key={table} onSelect={() => download(exported => exportCsv(exported, table), `.${table}.csv`)}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            {CSV_TABLE_LABELS[table]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
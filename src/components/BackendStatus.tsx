@@ -0,0 +1,50 @@
+import { Badge } from '@/components/ui/badge';
+import { BACKEND_LABELS, BackendCapabilities, BackendReport } from '@/utils/inferenceBackend';
+
+const CAPABILITY_LABELS: Record<Exclude<keyof BackendCapabilities, 'hardwareConcurrency'>, string> = {
+  webgpu: 'WebGPU',
+  shaderF16: 'fp16 na GPU',
+  simd: 'WASM SIMD',
+  threads: 'WASM threads',
+};
+
+interface BackendStatusProps {
+  detector: BackendReport;
+  pose?: BackendReport | null;
+}
+
+export const BackendStatus = ({ detector, pose }: BackendStatusProps) => {
+  const failures = [...detector.failures, ...(pose?.failures ?? [])];
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">Detector:</span>
+        <Badge variant="secondary">{BACKEND_LABELS[detector.backend]} · {detector.dtype}</Badge>
+        {pose && (
+          <>
+            <span className="font-medium">Pose:</span>
+            <Badge variant="secondary">{BACKEND_LABELS[pose.backend]} · {pose.dtype}</Badge>
+          </>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1.5 text-muted-foreground">
+        {(Object.keys(CAPABILITY_LABELS) as (keyof typeof CAPABILITY_LABELS)[]).map(capability => (
+          <span key={capability}>
+            {detector.capabilities[capability] ? '✓' : '✗'} {CAPABILITY_LABELS[capability]}
+          </span>
+        ))}
+        <span>· {detector.capabilities.hardwareConcurrency} núcleos</span>
+      </div>
+      {failures.length > 0 && (
+        <ul className="text-muted-foreground">
+          {failures.map((failure, index) => (
+            <li key={index}>
+              {BACKEND_LABELS[failure.backend]} ({failure.dtype}) indisponível: {failure.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
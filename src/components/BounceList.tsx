@@ -0,0 +1,65 @@
+import { Badge } from '@/components/ui/badge';
+import { CourtLineName } from '@/data/courtModel';
+import { BounceEvent, LineCall } from '@/utils/BounceDetector';
+
+const LINE_LABELS: Record<CourtLineName, string> = {
+  'far-baseline': 'Linha de base (fundo)',
+  'near-baseline': 'Linha de base (próxima)',
+  'far-service-line': 'Linha de saque (fundo)',
+  'near-service-line': 'Linha de saque (próxima)',
+  'left-doubles-sideline': 'Lateral de duplas esquerda',
+  'right-doubles-sideline': 'Lateral de duplas direita',
+  'left-singles-sideline': 'Lateral de simples esquerda',
+  'right-singles-sideline': 'Lateral de simples direita',
+  'center-service-line': 'Linha central de saque',
+};
+
+const VERDICT_VARIANTS: Record<LineCall, 'default' | 'destructive' | 'secondary'> = {
+  IN: 'default',
+  OUT: 'destructive',
+  TOO_CLOSE: 'secondary',
+};
+
+const VERDICT_LABELS: Record<LineCall, string> = {
+  IN: 'Dentro',
+  OUT: 'Fora',
+  TOO_CLOSE: 'Muito perto',
+};
+
+interface BounceListProps {
+  bounces: BounceEvent[];
+  onSelect?: (bounce: BounceEvent) => void;
+}
+
+export const BounceList = ({ bounces, onSelect }: BounceListProps) => {
+  if (bounces.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Nenhum quique detectado. Calibre a quadra para habilitar a marcação de linhas.
+      </p>
+    );
+  }
+
+  return (
+    <div className="max-h-72 overflow-y-auto divide-y">
+      {bounces.map(bounce => (
+        <button
+          key={bounce.frame}
+          type="button"
+          className="w-full flex items-center justify-between gap-4 py-2 text-left text-sm hover:bg-muted/50"
+          onClick={() => onSelect?.(bounce)}
+        >
+          <span className="w-14 font-mono text-muted-foreground">{bounce.timestamp.toFixed(1)}s</span>
+          <span className="flex-1">
+            {LINE_LABELS[bounce.nearestLine]}
+            <span className="ml-2 text-muted-foreground">
+              {bounce.distanceToLine >= 0 ? '+' : ''}
+              {(bounce.distanceToLine * 100).toFixed(0)} cm
+            </span>
+          </span>
+          <Badge variant={VERDICT_VARIANTS[bounce.verdict]}>{VERDICT_LABELS[bounce.verdict]}</Badge>
+        </button>
+      ))}
+    </div>
+  );
+};
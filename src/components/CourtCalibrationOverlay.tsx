@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Check, Undo2, X, SkipForward } from 'lucide-react';
+import {
+  COURT_LINES,
+  CourtPoint,
+  HALF_DOUBLES_WIDTH,
+  HALF_LENGTH,
+  HALF_SINGLES_WIDTH,
+  SERVICE_LINE_X,
+} from '@/data/courtModel';
+import { CourtCalibration, createCalibration } from '@/utils/CourtDetector';
+import { Point2D, applyHomography, computeHomography, reprojectionError } from '@/utils/homography';
+
+interface CalibrationStep {
+  label: string;
+  court: CourtPoint;
+  optional: boolean;
+}
+
+const CALIBRATION_STEPS: CalibrationStep[] = [
+  { label: 'Canto do fundo à esquerda', court: [-HALF_LENGTH, -HALF_DOUBLES_WIDTH], optional: false },
+  { label: 'Canto do fundo à direita', court: [-HALF_LENGTH, HALF_DOUBLES_WIDTH], optional: false },
+  { label: 'Canto próximo à direita', court: [HALF_LENGTH, HALF_DOUBLES_WIDTH], optional: false },
+  { label: 'Canto próximo à esquerda', court: [HALF_LENGTH, -HALF_DOUBLES_WIDTH], optional: false },
+  { label: 'Linha de saque do fundo (esquerda)', court: [-SERVICE_LINE_X, -HALF_SINGLES_WIDTH], optional: true },
+  { label: 'Linha de saque do fundo (direita)', court: [-SERVICE_LINE_X, HALF_SINGLES_WIDTH], optional: true },
+  { label: 'Linha de saque próxima (direita)', court: [SERVICE_LINE_X, HALF_SINGLES_WIDTH], optional: true },
+  { label: 'Linha de saque próxima (esquerda)', court: [SERVICE_LINE_X, -HALF_SINGLES_WIDTH], optional: true },
+];
+
+interface CourtCalibrationOverlayProps {
+  video: HTMLVideoElement | null;
+  frame: number;
+  onSave: (calibration: CourtCalibration) => void;
+  onCancel: () => void;
+}
+
+interface CalibrationClick {
+  step: number;
+  image: Point2D;
+}
+
+export const CourtCalibrationOverlay = ({ video, frame, onSave, onCancel }: CourtCalibrationOverlayProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [clicks, setClicks] = useState<CalibrationClick[]>([]);
+  const [step, setStep] = useState(0);
+
+  const courtToImage = useMemo(() => {
+    if (clicks.length < 4) return null;
+    return computeHomography(
+      clicks.map(click => CALIBRATION_STEPS[click.step].court),
+      clicks.map(click => click.image)
+    );
+  }, [clicks]);
+
+  const error = useMemo(() => {
+    if (!courtToImage) return null;
+    return reprojectionError(
+      courtToImage,
+      clicks.map(click => CALIBRATION_STEPS[click.step].court),
+      clicks.map(click => click.image)
+    );
+  }, [clicks, courtToImage]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !video) return;
+
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const radius = Math.max(4, canvas.width / 200);
+
+    // Quadra ITF projetada de volta sobre o frame
+    if (courtToImage) {
+      ctx.strokeStyle = '#facc15';
+      ctx.lineWidth = Math.max(2, canvas.width / 640);
+      for (const line of COURT_LINES) {
+        const [x1, y1] = applyHomography(courtToImage, line.start);
+        const [x2, y2] = applyHomography(courtToImage, line.end);
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        ctx.stroke();
+      }
+    }
+
+    ctx.font = `${Math.round(radius * 3)}px sans-serif`;
+    clicks.forEach((click, index) => {
+      const [x, y] = click.image;
+      ctx.fillStyle = CALIBRATION_STEPS[click.step].optional ? '#38bdf8' : '#ef4444';
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(String(index + 1), x + radius * 1.5, y - radius * 1.5);
+    });
+  }, [video, clicks, courtToImage]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || step >= CALIBRATION_STEPS.length) return;
+
+    // Converter coordenadas da tela para pixels do vídeo
+    const rect = canvas.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) * canvas.width) / rect.width;
+    const y = ((e.clientY - rect.top) * canvas.height) / rect.height;
+
+    setClicks([...clicks, { step, image: [x, y] }]);
+    setStep(step + 1);
+  };
+
+  const undo = () => {
+    if (step === 0) return;
+    const previousStep = step - 1;
+    setClicks(clicks.filter(click => click.step !== previousStep));
+    setStep(previousStep);
+  };
+
+  const save = () => {
+    if (!courtToImage) return;
+    const calibration = createCalibration(courtToImage, 1, 'manual', frame);
+    if (calibration) {
+      onSave(calibration);
+    }
+  };
+
+  const currentStep = CALIBRATION_STEPS[step];
+
+  return (
+    <div className="absolute inset-0 z-10">
+      <canvas
+        ref={canvasRef}
+        className="w-full h-full cursor-crosshair rounded-lg"
+        onClick={handleClick}
+      />
+      <div className="absolute top-2 left-2 right-2 flex flex-wrap items-center gap-2 rounded-md bg-background/90 p-2 text-sm">
+        <span className="flex-1">
+          {currentStep
+            ? `Clique: ${currentStep.label}${currentStep.optional ? ' (opcional)' : ''}`
+            : 'Todos os pontos marcados'}
+          {error !== null && (
+            <span className="ml-2 text-muted-foreground">
+              erro médio {error.toFixed(2)} px
+            </span>
+          )}
+        </span>
+        {currentStep?.optional && (
+          <Button size="sm" variant="ghost" onClick={() => setStep(step + 1)}>
+            <SkipForward className="h-4 w-4 mr-1" />
+            Pular
+          </Button>
+        )}
+        <Button size="sm" variant="outline" onClick={undo} disabled={step === 0}>
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={onCancel}>
+          <X className="h-4 w-4" />
+        </Button>
+        <Button size="sm" onClick={save} disabled={!courtToImage}>
+          <Check className="h-4 w-4 mr-1" />
+          Salvar
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Toggle } from '@/components/ui/toggle';
+import { useVideoTime } from '@/hooks/use-video-time';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { COURT_LINES } from '@/data/courtModel';
+import { BOUNCE_VERDICT_COLORS, SHOT_TYPE_LABELS, TRACK_COLORS } from '@/data/labels';
+import { BounceEvent } from '@/utils/BounceDetector';
+import { HitEvent } from '@/utils/HitDetector';
+import { applyHomography } from '@/utils/homography';
+import { TennisAnalysis } from '@/utils/VideoProcessor';
+
+type OverlayLayer = 'players' | 'ball' | 'court' | 'bounces' | 'shots';
+
+const LAYERS: { id: OverlayLayer; label: string }[] = [
+  { id: 'players', label: 'Jogadores' },
+  { id: 'ball', label: 'Bola' },
+  { id: 'court', label: 'Quadra' },
+  { id: 'bounces', label: 'Quiques' },
+  { id: 'shots', label: 'Golpes' },
+];
+
+const BALL_TRAIL = 1;      // segundos de trilha desenhados atrás da bola
+const EVENT_DURATION = 1;  // segundos em que quiques e golpes continuam visíveis
+
+interface DetectionOverlayProps {
+  video: HTMLVideoElement | null;
+  analyses: TennisAnalysis[];
+  bounces: BounceEvent[];
+  hits: HitEvent[];
+  frameSize: { width: number; height: number }; // resolução em que as detecções foram medidas
+  onSeek: (time: number) => void;
+}
+
+// Última análise com timestamp até o tempo dado (as análises estão em ordem)
+const analysisIndexAt = (analyses: TennisAnalysis[], time: number) => {
+  let low = 0;
+  let high = analyses.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (analyses[middle].timestamp <= time + 1e-3) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+};
+
+/**
+ * Desenha sobre o vídeo o que a análise encontrou no frame em exibição: caixas
+ * e IDs das trilhas, a bola com a trilha recente, as linhas da quadra pela
+ * homografia, quiques e golpes. O canvas acompanha o tempo do vídeo e permite
+ * avançar e voltar amostra a amostra pelas análises guardadas.
+ */
+export const DetectionOverlay = ({ video, analyses, bounces, hits, frameSize, onSeek }: DetectionOverlayProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [layers, setLayers] = useState<Set<OverlayLayer>>(() => new Set(['players', 'ball', 'court']));
+  const [index, setIndex] = useState(0);
+
+  // Acompanha o tempo do vídeo, inclusive durante a reprodução
+  useVideoTime(video, time => setIndex(analysisIndexAt(analyses, time)));
+  // Outra análise no mesmo vídeo parado: reposiciona sem esperar o próximo evento
+  useEffect(() => {
+    if (video) setIndex(analysisIndexAt(analyses, video.currentTime));
+  }, [video, analyses]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const analysis = analyses[index];
+    if (!canvas || !ctx) return;
+
+    canvas.width = frameSize.width;
+    canvas.height = frameSize.height;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!analysis) return;
+
+    const lineWidth = Math.max(2, canvas.width / 480);
+    ctx.lineWidth = lineWidth;
+    ctx.font = `bold ${Math.round(lineWidth * 7)}px sans-serif`;
+
+    if (layers.has('court') && analysis.court) {
+      ctx.strokeStyle = 'rgba(250, 204, 21, 0.8)';
+      for (const line of COURT_LINES) {
+        const [x1, y1] = applyHomography(analysis.court.inverse, line.start);
+        const [x2, y2] = applyHomography(analysis.court.inverse, line.end);
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        ctx.stroke();
+      }
+    }
+
+    if (layers.has('players')) {
+      for (const track of analysis.tracks) {
+        const [x1, y1, x2, y2] = track.bbox;
+        const color = track.role === 'player' ? TRACK_COLORS[track.trackId % TRACK_COLORS.length] : 'rgba(255, 255, 255, 0.5)';
+        ctx.strokeStyle = color;
+        ctx.strokeRect(x1, y1, x2 - x1, y2 - y1);
+        ctx.fillStyle = color;
+        ctx.fillText(`#${track.trackId}`, x1, Math.max(lineWidth * 7, y1 - lineWidth));
+      }
+    }
+
+    if (layers.has('ball')) {
+      // Trilha recente, mais transparente quanto mais antiga
+      const trail = analyses
+        .slice(Math.max(0, index - 240), index + 1)
+        .filter(item => item.timestamp >= analysis.timestamp - BALL_TRAIL && item.ballPosition.position);
+      for (let i = 1; i < trail.length; i++) {
+        const [x1, y1] = trail[i - 1].ballPosition.position!;
+        const [x2, y2] = trail[i].ballPosition.position!;
+        ctx.strokeStyle = `rgba(250, 250, 110, ${(i / trail.length).toFixed(2)})`;
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        ctx.stroke();
+      }
+
+      const position = analysis.ballPosition.position;
+      if (position) {
+        // Posição prevista pelo rastreador sem detecção no frame fica vazada
+        const detected = analysis.ballPosition.status === 'detected';
+        ctx.strokeStyle = ctx.fillStyle = '#fde047';
+        ctx.beginPath();
+        ctx.arc(position[0], position[1], lineWidth * 3, 0, Math.PI * 2);
+        if (detected) ctx.fill();
+        else ctx.stroke();
+      }
+    }
+
+    const recent = <T extends { timestamp: number }>(events: T[]) =>
+      events.filter(event => event.timestamp <= analysis.timestamp && event.timestamp > analysis.timestamp - EVENT_DURATION);
+
+    if (layers.has('bounces')) {
+      for (const bounce of recent(bounces)) {
+        const [x, y] = bounce.image;
+        ctx.strokeStyle = BOUNCE_VERDICT_COLORS[bounce.verdict];
+        ctx.beginPath();
+        ctx.ellipse(x, y, lineWidth * 6, lineWidth * 3, 0, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+
+    if (layers.has('shots')) {
+      for (const hit of recent(hits)) {
+        const [x, y] = hit.ballImage;
+        const label = `${hit.shotType ? SHOT_TYPE_LABELS[hit.shotType] : 'Golpe'} #${hit.trackId}`;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(x + lineWidth * 2, y - lineWidth * 9, ctx.measureText(label).width + lineWidth * 2, lineWidth * 9);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(label, x + lineWidth * 3, y - lineWidth * 2);
+      }
+    }
+  }, [analyses, bounces, hits, index, layers, frameSize]);
+
+  const toggleLayer = (layer: OverlayLayer, pressed: boolean) => {
+    setLayers(previous => {
+      const next = new Set(previous);
+      if (pressed) next.add(layer);
+      else next.delete(layer);
+      return next;
+    });
+  };
+
+  const step = (delta: number) => {
+    const target = analyses[Math.min(analyses.length - 1, Math.max(0, index + delta))];
+    if (target) onSeek(target.timestamp);
+  };
+
+  return (
+    <>
+      <canvas ref={canvasRef} className="absolute inset-0 h-full w-full pointer-events-none" />
+      <div className="absolute top-4 left-4 flex flex-wrap gap-1">
+        {LAYERS.map(layer => (
+          <Toggle
+            key={layer.id}
+            size="sm"
+            className="bg-background/70 data-[state=on]:bg-background"
+            pressed={layers.has(layer.id)}
+            onPressedChange={(pressed) => toggleLayer(layer.id, pressed)}
+          >
+            {layer.label}
+          </Toggle>
+        ))}
+      </div>
+      <div className="absolute bottom-4 right-4 flex items-center gap-1">
+        <Button size="sm" variant="secondary" onClick={() => step(-1)} disabled={index === 0} title="Amostra anterior">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="rounded bg-background/70 px-2 py-1 text-xs tabular-nums">
+          {analyses[index]?.sourceFrame ?? 0} · {index + 1}/{analyses.length}
+        </span>
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => step(1)}
+          disabled={index >= analyses.length - 1}
+          title="Próxima amostra"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,259 @@
+import { useMemo, useRef, useState } from 'react';
+import { Toggle } from '@/components/ui/toggle';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Repeat } from 'lucide-react';
+import { useVideoTime } from '@/hooks/use-video-time';
+import { BOUNCE_VERDICT_COLORS, POINT_OUTCOME_LABELS, SHOT_TYPE_LABELS, TRACK_COLORS } from '@/data/labels';
+import { BounceEvent } from '@/utils/BounceDetector';
+import { HitEvent } from '@/utils/HitDetector';
+import { PointOutcome, Rally } from '@/utils/PointSegmenter';
+import { SHOT_TYPES, ShotType } from '@/utils/ShotClassifier';
+
+type Filter<T> = 'all' | T;
+
+interface EventTimelineProps {
+  video: HTMLVideoElement | null;
+  duration: number; // segundos analisados
+  rallies: Rally[];
+  hits: HitEvent[];
+  bounces: BounceEvent[];
+  activeRally: number | null;
+  onSelectRally: (rally: Rally) => void;
+  onSeek: (time: number) => void;
+}
+
+const OUTCOME_COLORS: Record<PointOutcome, string> = {
+  winner: '#22c55e',
+  ace: '#22c55e',
+  'forced-error': '#f97316',
+  'unforced-error': '#ef4444',
+  'double-fault': '#ef4444',
+  fault: '#facc15',
+  unknown: '#94a3b8',
+};
+
+const OUTCOMES = Object.keys(POINT_OUTCOME_LABELS) as PointOutcome[];
+const LOOP_MARGIN = 0.5; // segundos antes e depois do ponto ao repetir
+
+const shotLabel = (hit: HitEvent) =>
+  `${hit.timestamp.toFixed(1)}s · ${hit.shotType ? SHOT_TYPE_LABELS[hit.shotType] : 'Golpe'} do jogador #${hit.trackId}`;
+
+/**
+ * Linha do tempo dos eventos detectados: pontos como trechos, saques, golpes,
+ * quiques e resultados como marcadores. Clicar leva o vídeo (e a sobreposição)
+ * ao evento; um ponto selecionado pode ficar em repetição durante a reprodução.
+ */
+export const EventTimeline = ({
+  video,
+  duration,
+  rallies,
+  hits,
+  bounces,
+  activeRally,
+  onSelectRally,
+  onSeek,
+}: EventTimelineProps) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+  const [player, setPlayer] = useState<Filter<string>>('all');
+  const [shotType, setShotType] = useState<Filter<ShotType>>('all');
+  const [outcome, setOutcome] = useState<Filter<PointOutcome>>('all');
+  const [loop, setLoop] = useState(false);
+
+  // O vídeo pode ir além da última amostra analisada
+  const span = Math.max(duration, video && Number.isFinite(video.duration) ? video.duration : 0, 1);
+  const position = (time: number) => `${(Math.min(Math.max(time, 0), span) / span) * 100}%`;
+
+  const players = useMemo(() => [...new Set(hits.map(hit => hit.trackId))].sort((a, b) => a - b), [hits]);
+  const loopedRally = loop ? rallies.find(rally => rally.index === activeRally) ?? null : null;
+
+  // Com filtro de resultado, só os eventos dentro dos pontos que passam por ele
+  const visibleRallies = useMemo(
+    () =>
+      rallies.filter(rally =>
+        (outcome === 'all' || rally.outcome === outcome) &&
+        (player === 'all' || rally.shots.some(shot => String(shot.trackId) === player))
+      ),
+    [rallies, outcome, player]
+  );
+  const inVisibleRally = (time: number) =>
+    outcome === 'all' || visibleRallies.some(rally => time >= rally.startTime && time <= rally.endTime);
+
+  const visibleHits = hits.filter(hit =>
+    (player === 'all' || String(hit.trackId) === player) &&
+    (shotType === 'all' || hit.shotType === shotType) &&
+    inVisibleRally(hit.timestamp)
+  );
+  const serves = visibleHits.filter(hit => hit.shotType === 'serve');
+  const strokes = visibleHits.filter(hit => hit.shotType !== 'serve');
+  const visibleBounces = bounces.filter(bounce => inVisibleRally(bounce.timestamp));
+
+  // Cursor e repetição acompanham o vídeo quadro a quadro, sem renderizar a lista de marcadores
+  useVideoTime(video, time => {
+    if (!video) return;
+    if (loopedRally && !video.paused && time > loopedRally.endTime + LOOP_MARGIN) {
+      video.currentTime = Math.max(0, loopedRally.startTime - LOOP_MARGIN);
+    }
+    if (playheadRef.current) {
+      playheadRef.current.style.left = `${(Math.min(time, span) / span) * 100}%`;
+    }
+  });
+
+  // Clique fora dos marcadores posiciona o vídeo no tempo correspondente
+  const seekFromClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    onSeek(((e.clientX - rect.left) / rect.width) * span);
+  };
+
+  const marker = (key: string, time: number, title: string, color: string, className: string) => (
+    <button
+      key={key}
+      type="button"
+      title={title}
+      className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 border border-background hover:scale-150 transition-transform ${className}`}
+      style={{ left: position(time), backgroundColor: color }}
+      onClick={(e) => {
+        e.stopPropagation();
+        onSeek(time);
+      }}
+    />
+  );
+
+  const lanes: { label: string; content: React.ReactNode }[] = [
+    {
+      label: 'Pontos',
+      content: (
+        <>
+          {visibleRallies.map(rally => (
+            <button
+              key={`rally-${rally.index}`}
+              type="button"
+              title={`Ponto #${rally.index} · ${rally.startTime.toFixed(1)}s–${rally.endTime.toFixed(1)}s`}
+              className={`absolute inset-y-1 rounded-sm ${
+                rally.index === activeRally ? 'bg-tennis-court/70 ring-1 ring-tennis-court' : 'bg-tennis-court/25 hover:bg-tennis-court/40'
+              }`}
+              style={{ left: position(rally.startTime), width: `${((rally.endTime - rally.startTime) / span) * 100}%` }}
+              onClick={(e) => {
+                e.stopPropagation();
+                onSelectRally(rally);
+              }}
+            />
+          ))}
+          {visibleRallies.map(rally =>
+            marker(
+              `outcome-${rally.index}`,
+              rally.endTime,
+              `Ponto #${rally.index} · ${POINT_OUTCOME_LABELS[rally.outcome]}` +
+                (rally.pointWinner !== null ? ` · ponto do jogador #${rally.pointWinner}` : ''),
+              OUTCOME_COLORS[rally.outcome],
+              'h-3 w-1.5 rounded-sm'
+            )
+          )}
+        </>
+      ),
+    },
+    {
+      label: 'Saques',
+      content: serves.map(hit =>
+        marker(`serve-${hit.frame}-${hit.trackId}`, hit.timestamp, shotLabel(hit), TRACK_COLORS[hit.trackId % TRACK_COLORS.length], 'h-2.5 w-2.5 rotate-45')
+      ),
+    },
+    {
+      label: 'Golpes',
+      content: strokes.map(hit =>
+        marker(`hit-${hit.frame}-${hit.trackId}`, hit.timestamp, shotLabel(hit), TRACK_COLORS[hit.trackId % TRACK_COLORS.length], 'h-2.5 w-2.5 rounded-full')
+      ),
+    },
+    {
+      label: 'Quiques',
+      content: visibleBounces.map(bounce =>
+        marker(
+          `bounce-${bounce.frame}`,
+          bounce.timestamp,
+          `${bounce.timestamp.toFixed(1)}s · quique ${bounce.verdict}`,
+          BOUNCE_VERDICT_COLORS[bounce.verdict],
+          'h-2 w-2 rounded-full'
+        )
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={player} onValueChange={setPlayer}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os jogadores</SelectItem>
+            {players.map(trackId => (
+              <SelectItem key={trackId} value={String(trackId)}>Jogador #{trackId}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={shotType} onValueChange={(value: Filter<ShotType>) => setShotType(value)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os golpes</SelectItem>
+            {SHOT_TYPES.map(type => (
+              <SelectItem key={type} value={type}>{SHOT_TYPE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={outcome} onValueChange={(value: Filter<PointOutcome>) => setOutcome(value)}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os resultados</SelectItem>
+            {OUTCOMES.map(value => (
+              <SelectItem key={value} value={value}>{POINT_OUTCOME_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Toggle
+          size="sm"
+          variant="outline"
+          className="ml-auto"
+          pressed={loop}
+          onPressedChange={setLoop}
+          disabled={activeRally === null}
+          title={activeRally === null ? 'Selecione um ponto para repetir' : `Repetir o ponto #${activeRally} durante a reprodução`}
+        >
+          <Repeat className="h-4 w-4 mr-1" />
+          Repetir ponto
+        </Toggle>
+      </div>
+
+      <div className="flex gap-2">
+        <div className="w-14 shrink-0 space-y-1">
+          {lanes.map(lane => (
+            <div key={lane.label} className="h-6 text-xs leading-6 text-muted-foreground">
+              {lane.label}
+            </div>
+          ))}
+        </div>
+        <div ref={trackRef} className="relative flex-1 cursor-pointer space-y-1" onClick={seekFromClick}>
+          {lanes.map(lane => (
+            <div key={lane.label} className="relative h-6 rounded bg-muted/50">
+              {lane.content}
+            </div>
+          ))}
+          <div ref={playheadRef} className="pointer-events-none absolute inset-y-0 w-0.5 -translate-x-1/2 bg-foreground" />
+        </div>
+      </div>
+
+      <div className="flex justify-between text-xs text-muted-foreground tabular-nums">
+        <span>0s</span>
+        <span>
+          {visibleRallies.length} pontos · {serves.length} saques · {strokes.length} golpes · {visibleBounces.length} quiques
+        </span>
+        <span>{span.toFixed(0)}s</span>
+      </div>
+    </div>
+  );
+};
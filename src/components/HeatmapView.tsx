@@ -0,0 +1,306 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Toggle } from '@/components/ui/toggle';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Camera } from 'lucide-react';
+import { SHOT_TYPE_LABELS } from '@/data/labels';
+import { ShotType } from '@/utils/ShotClassifier';
+import { CourtHeatmapGroup, CourtHeatmaps, DEFAULT_COURT_GRID, SparseCourtGrid } from '@/utils/CourtHeatmap';
+import { CourtCanvasLayout, courtCanvasSize, drawCourt, drawCourtDensity, drawCourtLines } from '@/utils/courtCanvas';
+import { HeatmapScale, HeatmapSeries, accumulateGrid, colorizeDensity, gaussianBlur, heatColor } from '@/utils/heatmap';
+
+type HeatmapBackground = 'court' | 'frame';
+type CourtGrouping = 'player' | 'set' | 'shot';
+type CourtLayer = keyof CourtHeatmapGroup;
+
+interface HeatmapViewProps {
+  series: HeatmapSeries[];
+  courtHeatmaps: CourtHeatmaps;
+  frameSize: { width: number; height: number }; // resolução em que as posições na imagem foram medidas
+  video: HTMLVideoElement | null;
+}
+
+// Mesma área coberta pelas grades da análise
+const COURT_LAYOUT: CourtCanvasLayout = { pixelsPerMeter: 24, margin: DEFAULT_COURT_GRID.margin };
+const MAX_FRAME_WIDTH = 960;
+const CELL_SIZE = 4;          // pixels do canvas por célula da grade de densidade no frame
+
+// No frame, os jogadores começam visíveis e a bola escondida
+const defaultVisibleSeries = (series: HeatmapSeries[]) =>
+  new Set(series.filter(item => item.kind === 'player').map(item => item.id));
+
+const seriesLabel = (series: HeatmapSeries) => (series.kind === 'ball' ? 'Bola' : `Jogador #${series.trackId}`);
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+/**
+ * Mapas de calor desenhados em canvas. Na quadra vista de cima entram as
+ * grades em metros calculadas na análise, por jogador, set ou tipo de golpe;
+ * sobre um frame do vídeo, as posições em pixels de cada série visível são
+ * acumuladas numa grade, suavizadas por um gaussiano e coloridas.
+ */
+export const HeatmapView = ({ series, courtHeatmaps, frameSize, video }: HeatmapViewProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [background, setBackground] = useState<HeatmapBackground>('court');
+  const [visible, setVisible] = useState<Set<string>>(() => defaultVisibleSeries(series));
+  const [grouping, setGrouping] = useState<CourtGrouping>('player');
+  const [visiblePlayers, setVisiblePlayers] = useState<Set<number>>(
+    () => new Set(Object.keys(courtHeatmaps.byPlayer).map(Number))
+  );
+  const [layer, setLayer] = useState<CourtLayer>('players');
+  const [setIndex, setSetIndex] = useState(0);
+  const shotTypes = Object.keys(courtHeatmaps.byShotType) as ShotType[];
+  const [shotType, setShotType] = useState<ShotType | undefined>(shotTypes[0]);
+  const [opacity, setOpacity] = useState(0.8);
+  // Na quadra a grade já vem suavizada pelo kernel; o controle acrescenta suavização
+  const [smoothing, setSmoothing] = useState<Record<HeatmapBackground, number>>({ court: 0, frame: 4 });
+  const [scale, setScale] = useState<HeatmapScale>('linear');
+  const [still, setStill] = useState<ImageBitmap | null>(null);
+
+  // Uma nova análise traz outros jogadores, sets e golpes
+  useEffect(() => {
+    setVisiblePlayers(new Set(Object.keys(courtHeatmaps.byPlayer).map(Number)));
+    setSetIndex(0);
+    setShotType(Object.keys(courtHeatmaps.byShotType)[0] as ShotType | undefined);
+  }, [courtHeatmaps]);
+
+  // As séries em pixels do fundo do frame também mudam com a análise
+  useEffect(() => {
+    setVisible(defaultVisibleSeries(series));
+  }, [series]);
+
+  const selectedGrids = useMemo((): SparseCourtGrid[] => {
+    if (grouping === 'player') {
+      if (layer === 'bounces') return [courtHeatmaps.bounces];
+      return [...visiblePlayers].map(trackId => courtHeatmaps.byPlayer[trackId]).filter(Boolean);
+    }
+    const group = grouping === 'set' ? courtHeatmaps.sets[setIndex] : shotType && courtHeatmaps.byShotType[shotType];
+    return group ? [group[layer]] : [];
+  }, [courtHeatmaps, grouping, layer, visiblePlayers, setIndex, shotType]);
+
+  const courtSamples = selectedGrids.reduce((sum, grid) => sum + grid.samples, 0);
+
+  const captureStill = async () => {
+    if (!video || video.readyState < 2) return;
+    setStill(await createImageBitmap(video));
+  };
+
+  // O bitmap anterior é liberado quando um novo frame é capturado
+  useEffect(() => () => still?.close(), [still]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    if (background === 'court') {
+      const { width, height } = courtCanvasSize(COURT_LAYOUT);
+      canvas.width = width;
+      canvas.height = height;
+      drawCourt(ctx, COURT_LAYOUT);
+      // 0,25 m de suavização extra por passo
+      drawCourtDensity(ctx, COURT_LAYOUT, selectedGrids, { scale, opacity, smoothing: smoothing.court * 0.25 });
+      drawCourtLines(ctx, COURT_LAYOUT);
+      return;
+    }
+
+    const ratio = Math.min(1, MAX_FRAME_WIDTH / frameSize.width);
+    canvas.width = Math.round(frameSize.width * ratio);
+    canvas.height = Math.round(frameSize.height * ratio);
+    if (still) {
+      ctx.drawImage(still, 0, 0, canvas.width, canvas.height);
+    } else {
+      ctx.fillStyle = '#111827';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    const points = series.filter(item => visible.has(item.id)).flatMap(item => item.points);
+    const columns = Math.ceil(canvas.width / CELL_SIZE);
+    const rows = Math.ceil(canvas.height / CELL_SIZE);
+    const grid = accumulateGrid(points, columns, rows, ([x, y]) => [(x * ratio) / CELL_SIZE, (y * ratio) / CELL_SIZE]);
+    const density = gaussianBlur(grid, columns, rows, (smoothing.frame * 0.005 * canvas.width) / CELL_SIZE); // 0,5% da largura por passo
+
+    // A grade é pintada numa camada pequena e ampliada com interpolação
+    const layerCanvas = document.createElement('canvas');
+    layerCanvas.width = columns;
+    layerCanvas.height = rows;
+    layerCanvas.getContext('2d')?.putImageData(new ImageData(colorizeDensity(density, scale), columns, rows), 0, 0);
+    ctx.globalAlpha = opacity;
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(layerCanvas, 0, 0, columns * CELL_SIZE, rows * CELL_SIZE);
+    ctx.globalAlpha = 1;
+  }, [series, selectedGrids, visible, background, opacity, smoothing, scale, still, frameSize]);
+
+  const toggleSeries = (id: string, pressed: boolean) => {
+    setVisible(previous => {
+      const next = new Set(previous);
+      if (pressed) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const togglePlayer = (trackId: number, pressed: boolean) => {
+    setVisiblePlayers(previous => {
+      const next = new Set(previous);
+      if (pressed) next.add(trackId);
+      else next.delete(trackId);
+      return next;
+    });
+  };
+
+  const legend = `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(value => `rgb(${heatColor(value).join(',')})`).join(', ')})`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={background}
+          onValueChange={(value: HeatmapBackground) => {
+            setBackground(value);
+            if (value === 'frame' && !still) captureStill();
+          }}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="court">Quadra vista de cima</SelectItem>
+            <SelectItem value="frame">Sobre um frame do vídeo</SelectItem>
+          </SelectContent>
+        </Select>
+        {background === 'frame' && (
+          <Button size="sm" variant="outline" onClick={captureStill} disabled={!video}>
+            <Camera className="h-4 w-4 mr-1" />
+            Usar frame atual
+          </Button>
+        )}
+        {background === 'court' && (
+          <>
+            <Select value={grouping} onValueChange={(value: CourtGrouping) => setGrouping(value)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="player">Por jogador</SelectItem>
+                <SelectItem value="set">Por set</SelectItem>
+                <SelectItem value="shot" disabled={shotTypes.length === 0}>Por tipo de golpe</SelectItem>
+              </SelectContent>
+            </Select>
+            {grouping === 'set' && (
+              <Select value={String(setIndex)} onValueChange={(value) => setSetIndex(Number(value))}>
+                <SelectTrigger className="w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {courtHeatmaps.sets.map(set => (
+                    <SelectItem key={set.index} value={String(set.index)}>
+                      Set {set.index + 1} ({formatClock(set.start)}–{formatClock(set.end)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {grouping === 'shot' && shotType && (
+              <Select value={shotType} onValueChange={(value: ShotType) => setShotType(value)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {shotTypes.map(type => (
+                    <SelectItem key={type} value={type}>{SHOT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={layer} onValueChange={(value: CourtLayer) => setLayer(value)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="players">{grouping === 'shot' ? 'Posição no golpe' : 'Posição dos jogadores'}</SelectItem>
+                <SelectItem value="bounces">Quiques da bola</SelectItem>
+              </SelectContent>
+            </Select>
+          </>
+        )}
+        <div className="flex flex-wrap gap-1 ml-auto">
+          {background === 'frame' && series.map(item => (
+            <Toggle
+              key={item.id}
+              size="sm"
+              variant="outline"
+              pressed={visible.has(item.id)}
+              onPressedChange={(pressed) => toggleSeries(item.id, pressed)}
+            >
+              {seriesLabel(item)}
+              <span className="ml-1 text-xs text-muted-foreground">({item.points.length})</span>
+            </Toggle>
+          ))}
+          {background === 'court' && grouping === 'player' && layer === 'players' &&
+            Object.entries(courtHeatmaps.byPlayer).map(([trackId, grid]) => (
+              <Toggle
+                key={trackId}
+                size="sm"
+                variant="outline"
+                pressed={visiblePlayers.has(Number(trackId))}
+                onPressedChange={(pressed) => togglePlayer(Number(trackId), pressed)}
+              >
+                Jogador #{trackId}
+                <span className="ml-1 text-xs text-muted-foreground">({grid.samples})</span>
+              </Toggle>
+            ))}
+        </div>
+      </div>
+
+      <div className="relative">
+        <canvas ref={canvasRef} className="w-full rounded-lg" />
+        {background === 'court' && courtSamples === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center p-4 text-center">
+            <p className="rounded bg-background/80 px-3 py-2 text-sm text-muted-foreground">
+              Sem posições na quadra: calibre a quadra ou veja o mapa sobre um frame do vídeo.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label className="text-xs">Opacidade ({Math.round(opacity * 100)}%)</Label>
+          <Slider min={0.1} max={1} step={0.05} value={[opacity]} onValueChange={([value]) => setOpacity(value)} />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs">{background === 'court' ? 'Suavização extra' : 'Suavização'}</Label>
+          <Slider
+            min={0}
+            max={12}
+            step={1}
+            value={[smoothing[background]]}
+            onValueChange={([value]) => setSmoothing(previous => ({ ...previous, [background]: value }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs">Escala de cores</Label>
+          <Select value={scale} onValueChange={(value: HeatmapScale) => setScale(value)}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="linear">Linear</SelectItem>
+              <SelectItem value="log">Logarítmica (realça áreas pouco visitadas)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span>Menos tempo</span>
+        <div className="h-2 flex-1 rounded" style={{ background: legend }} />
+        <span>Mais tempo</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,287 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { FileJson, FolderOpen, Pencil, Search, Trash2, Video } from 'lucide-react';
+import {
+  AnalysisSession,
+  SessionVideo,
+  deleteSession,
+  listSessions,
+  matchesSessionQuery,
+  updateSession,
+} from '@/utils/analysisSession';
+import { matchPath } from '@/utils/matchLink';
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+const videoStatus = (video: SessionVideo) => {
+  switch (video.kind) {
+    case 'file':
+      return video.stored ? `Vídeo guardado (${video.name})` : `Vídeo grande demais para guardar (${video.name})`;
+    case 'url':
+      return 'Vídeo por URL';
+    case 'none':
+      return 'Análise importada, sem vídeo';
+  }
+};
+
+// Lista separada por vírgulas, sem itens vazios
+const parseList = (text: string) =>
+  text.split(',').map(item => item.trim()).filter(Boolean);
+
+interface SessionEditorProps {
+  session: AnalysisSession;
+  onSave: (changes: Pick<AnalysisSession, 'label' | 'players' | 'tags'>) => void;
+  onCancel: () => void;
+}
+
+const SessionEditor = ({ session, onSave, onCancel }: SessionEditorProps) => {
+  const [label, setLabel] = useState(session.label);
+  const [players, setPlayers] = useState(session.players.join(', '));
+  const [tags, setTags] = useState(session.tags.join(', '));
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave({ label: label.trim() || session.label, players: parseList(players), tags: parseList(tags) });
+      }}
+    >
+      <div className="space-y-1">
+        <Label htmlFor={`label-${session.key}`} className="text-xs">Título</Label>
+        <Input id={`label-${session.key}`} value={label} onChange={(e) => setLabel(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`players-${session.key}`} className="text-xs">Jogadores (separados por vírgula)</Label>
+        <Input id={`players-${session.key}`} value={players} onChange={(e) => setPlayers(e.target.value)} />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor={`tags-${session.key}`} className="text-xs">Etiquetas (separadas por vírgula)</Label>
+        <Input
+          id={`tags-${session.key}`}
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="treino, torneio, saque..."
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+          Cancelar
+        </Button>
+        <Button type="submit" size="sm">
+          Salvar
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+/**
+ * Partidas analisadas neste navegador, guardadas no IndexedDB. A busca olha o
+ * título, os jogadores e as etiquetas; abrir leva a sessão de volta ao analisador.
+ */
+export const MatchLibrary = () => {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<AnalysisSession[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<AnalysisSession | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(error => {
+        console.error('Erro ao ler a biblioteca:', error);
+        setSessions([]);
+        toast({
+          title: "Não foi possível ler a biblioteca",
+          description: error instanceof Error ? error.message : String(error),
+          variant: "destructive",
+        });
+      });
+  }, [toast]);
+
+  const visible = useMemo(
+    () => (sessions ?? []).filter(session => matchesSessionQuery(session, query)),
+    [sessions, query]
+  );
+
+  const replaceSession = (updated: AnalysisSession) =>
+    setSessions(previous => previous?.map(session => (session.key === updated.key ? updated : session)) ?? null);
+
+  const saveChanges = async (key: string, changes: Pick<AnalysisSession, 'label' | 'players' | 'tags'>) => {
+    try {
+      replaceSession(await updateSession(key, changes));
+      setEditingKey(null);
+    } catch (error) {
+      console.error('Erro ao salvar sessão:', error);
+      toast({
+        title: "Não foi possível salvar",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    const { key, label } = pendingDelete;
+    setPendingDelete(null);
+    try {
+      await deleteSession(key);
+      setSessions(previous => previous?.filter(session => session.key !== key) ?? null);
+      toast({ title: "Sessão excluída", description: label });
+    } catch (error) {
+      console.error('Erro ao excluir sessão:', error);
+      toast({
+        title: "Não foi possível excluir",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (sessions === null) {
+    return <p className="text-center text-sm text-muted-foreground">Carregando partidas...</p>;
+  }
+
+  return (
+    <div className="w-full max-w-6xl mx-auto p-6 space-y-6">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative flex-1 min-w-64">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            className="pl-9"
+            placeholder="Buscar por título, jogador ou etiqueta..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        <span className="text-sm text-muted-foreground">
+          {visible.length} de {sessions.length} partidas
+        </span>
+      </div>
+
+      {sessions.length === 0 && (
+        <Card>
+          <CardContent className="py-12 text-center space-y-4">
+            <p className="text-muted-foreground">
+              Nenhuma partida salva ainda. Cada análise concluída fica guardada aqui, neste navegador.
+            </p>
+            <Button asChild>
+              <Link to="/">Analisar um vídeo</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {sessions.length > 0 && visible.length === 0 && (
+        <p className="text-center text-sm text-muted-foreground">Nenhuma partida corresponde à busca.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {visible.map(session => (
+          <Card key={session.key} className="overflow-hidden">
+            <div className="aspect-video bg-muted flex items-center justify-center">
+              {session.thumbnail ? (
+                <img src={session.thumbnail} alt={session.label} className="h-full w-full object-cover" />
+              ) : session.video.kind === 'none' ? (
+                <FileJson className="h-10 w-10 text-muted-foreground" />
+              ) : (
+                <Video className="h-10 w-10 text-muted-foreground" />
+              )}
+            </div>
+            <CardContent className="p-4 space-y-3">
+              {editingKey === session.key ? (
+                <SessionEditor
+                  session={session}
+                  onSave={(changes) => saveChanges(session.key, changes)}
+                  onCancel={() => setEditingKey(null)}
+                />
+              ) : (
+                <>
+                  <div>
+                    <h3 className="font-semibold truncate" title={session.label}>{session.label}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(session.analyzedAt).toLocaleString('pt-BR')} · {formatDuration(session.duration)}
+                    </p>
+                  </div>
+                  <p className="text-sm">
+                    {session.players.length > 0 ? session.players.join(' × ') : 'Jogadores não identificados'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {session.stats.points} pontos · {session.stats.shots} golpes · {session.stats.winners} winners ·{' '}
+                    {session.stats.errors} erros
+                  </p>
+                  {session.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {session.tags.map(tag => (
+                        <Badge
+                          key={tag}
+                          variant="secondary"
+                          className="cursor-pointer"
+                          onClick={() => setQuery(tag)}
+                          title="Filtrar por esta etiqueta"
+                        >
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-xs text-muted-foreground">{videoStatus(session.video)}</p>
+                  <div className="flex gap-2">
+                    <Button asChild size="sm" className="flex-1">
+                      <Link to={matchPath(session.key)}>
+                        <FolderOpen className="h-4 w-4 mr-1" />
+                        Abrir
+                      </Link>
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setEditingKey(session.key)} title="Editar título, jogadores e etiquetas">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setPendingDelete(session)} title="Excluir da biblioteca">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir partida?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.label} será apagada deste navegador, com a análise e o vídeo guardado. Exporte os dados
+              antes se quiser mantê-los.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Excluir</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
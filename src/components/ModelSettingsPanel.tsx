@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ALL_MODELS,
+  DETECTOR_MODELS,
+  DetectorSize,
+  MODELS_PATH,
+  ModelSettings,
+  ModelSource,
+  clearInstalledModels,
+  installFromFolder,
+  installFromServer,
+  isInstalled,
+} from '@/utils/modelRegistry';
+
+const SOURCE_LABELS: Record<ModelSource, string> = {
+  hub: 'Hugging Face (internet)',
+  local: `Pasta ${MODELS_PATH} do servidor`,
+  folder: 'Pasta escolhida neste computador',
+};
+
+interface ModelSettingsPanelProps {
+  settings: ModelSettings;
+  onChange: (settings: ModelSettings) => void;
+  disabled?: boolean;
+}
+
+export const ModelSettingsPanel = ({ settings, onChange, disabled }: ModelSettingsPanelProps) => {
+  const { toast } = useToast();
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [installed, setInstalled] = useState<Record<string, boolean>>({});
+  const [status, setStatus] = useState<string | null>(null);
+  const [isInstalling, setIsInstalling] = useState(false);
+
+  const refreshInstalled = useCallback(async () => {
+    const entries = await Promise.all(ALL_MODELS.map(async entry => [entry.id, await isInstalled(entry)] as const));
+    setInstalled(Object.fromEntries(entries));
+  }, []);
+
+  useEffect(() => {
+    refreshInstalled();
+    // O React não declara o atributo de seleção de pastas
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [refreshInstalled]);
+
+  const runInstall = async (install: () => Promise<{ label: string }[]>) => {
+    setIsInstalling(true);
+    try {
+      const models = await install();
+      toast({
+        title: "Modelos verificados",
+        description: models.map(model => model.label).join(', '),
+      });
+    } catch (error) {
+      console.error('Erro ao instalar modelos:', error);
+      toast({
+        title: "Falha na verificação dos modelos",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsInstalling(false);
+      setStatus(null);
+      refreshInstalled();
+    }
+  };
+
+  const isAvailable = (size: DetectorSize) => {
+    const entry = DETECTOR_MODELS[size];
+    return settings.source === 'hub' ? entry.hubId !== null : installed[entry.id] || settings.source === 'local';
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4 text-sm">
+      <div className="space-y-2">
+        <Label>Origem dos modelos</Label>
+        <RadioGroup
+          value={settings.source}
+          onValueChange={(source: ModelSource) => onChange({ ...settings, source })}
+          disabled={disabled}
+        >
+          {(Object.keys(SOURCE_LABELS) as ModelSource[]).map(source => (
+            <div key={source} className="flex items-center gap-2">
+              <RadioGroupItem id={`model-source-${source}`} value={source} />
+              <Label htmlFor={`model-source-${source}`} className="font-normal">{SOURCE_LABELS[source]}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Tamanho do detector</Label>
+        <Select
+          value={settings.detectorSize}
+          onValueChange={(detectorSize: DetectorSize) => onChange({ ...settings, detectorSize })}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DETECTOR_MODELS) as DetectorSize[]).map(size => (
+              <SelectItem key={size} value={size} disabled={!isAvailable(size)}>
+                {DETECTOR_MODELS[size].label}
+                {installed[DETECTOR_MODELS[size].id] ? ' · instalado' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Modelos menores são mais rápidos; os maiores detectam melhor a bola e jogadores distantes.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={disabled || isInstalling}
+          onClick={() => runInstall(() => installFromServer(ALL_MODELS, setStatus))}
+        >
+          Verificar {MODELS_PATH}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={disabled || isInstalling}
+          onClick={() => folderInputRef.current?.click()}
+        >
+          Instalar de uma pasta
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          disabled={disabled || isInstalling}
+          onClick={async () => {
+            await clearInstalledModels();
+            refreshInstalled();
+          }}
+        >
+          Remover modelos instalados
+        </Button>
+        <input
+          ref={folderInputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            const files = e.target.files;
+            if (files && files.length > 0) {
+              runInstall(() => installFromFolder(files, ALL_MODELS, setStatus));
+            }
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {status && <p className="text-xs text-muted-foreground">{status}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import { Badge } from '@/components/ui/badge';
+import { POINT_OUTCOME_LABELS } from '@/data/labels';
+import { Rally } from '@/utils/PointSegmenter';
+
+interface RallyListProps {
+  rallies: Rally[];
+  selectedIndex?: number | null;
+  onSelect?: (rally: Rally) => void;
+}
+
+export const RallyList = ({ rallies, selectedIndex = null, onSelect }: RallyListProps) => {
+  if (rallies.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nenhum ponto identificado no vídeo.</p>;
+  }
+
+  return (
+    <div className="max-h-72 overflow-y-auto divide-y">
+      {rallies.map(rally => (
+        <button
+          key={rally.index}
+          type="button"
+          className={`w-full flex items-center justify-between gap-4 py-2 text-left text-sm hover:bg-muted/50 ${
+            rally.index === selectedIndex ? 'bg-muted' : ''
+          }`}
+          onClick={() => onSelect?.(rally)}
+        >
+          <span className="w-8 font-mono text-muted-foreground">#{rally.index}</span>
+          <span className="w-16 font-mono text-muted-foreground">{rally.startTime.toFixed(1)}s</span>
+          <span className="flex-1">
+            {rally.shots.length} golpes · {rally.duration.toFixed(1)}s
+            {rally.pointWinner !== null && (
+              <span className="ml-2 text-muted-foreground">ponto do jogador #{rally.pointWinner}</span>
+            )}
+          </span>
+          <Badge variant={rally.outcome === 'winner' || rally.outcome === 'ace' ? 'default' : 'secondary'}>
+            {POINT_OUTCOME_LABELS[rally.outcome]}
+          </Badge>
+        </button>
+      ))}
+    </div>
+  );
+};
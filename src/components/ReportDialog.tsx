@@ -0,0 +1,167 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Download, ImagePlus, X } from 'lucide-react';
+import {
+  MatchReportInput,
+  ReportLanguage,
+  ReportTemplate,
+  generateMatchReport,
+  loadReportTemplate,
+  saveReportTemplate,
+} from '@/utils/matchReport';
+import { downloadBlob, fileBaseName } from '@/utils/download';
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  input: MatchReportInput;
+}
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Modelo do relatório (logotipo do clube, nome, idioma e observações do
+ * treinador) e geração do PDF. O modelo fica salvo para as próximas partidas;
+ * as observações valem só para esta.
+ */
+export const ReportDialog = ({ open, onOpenChange, input }: ReportDialogProps) => {
+  const { toast } = useToast();
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const [template, setTemplate] = useState<ReportTemplate>(loadReportTemplate);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const update = (changes: Partial<ReportTemplate>) => setTemplate(previous => ({ ...previous, ...changes }));
+
+  const chooseLogo = async (file: File | undefined) => {
+    if (!file) return;
+    if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+      toast({ title: "Formato não suportado", description: "Use um logotipo em PNG ou JPEG.", variant: "destructive" });
+      return;
+    }
+    update({ logo: await readAsDataUrl(file) });
+  };
+
+  const generate = async () => {
+    setIsGenerating(true);
+    try {
+      // Deixa o botão mostrar o estado antes do trabalho síncrono de montar o PDF
+      await new Promise(resolve => setTimeout(resolve, 0));
+      saveReportTemplate(template);
+      downloadBlob(generateMatchReport(input, template), `relatorio-${fileBaseName(input.title, 'partida')}.pdf`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Erro ao gerar relatório:', error);
+      toast({
+        title: "Erro ao gerar relatório",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Relatório da partida</DialogTitle>
+          <DialogDescription>
+            PDF com estatísticas por jogador, golpes, pontos, mapas de calor e comparação com profissional.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="report-club">Clube ou academia</Label>
+            <Input
+              id="report-club"
+              value={template.clubName}
+              onChange={(e) => update({ clubName: e.target.value })}
+              placeholder="Aparece no cabeçalho de cada página"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Logotipo</Label>
+            <div className="flex items-center gap-2">
+              {template.logo && <img src={template.logo} alt="Logotipo" className="h-10 max-w-32 object-contain" />}
+              <Button size="sm" variant="outline" onClick={() => logoInputRef.current?.click()}>
+                <ImagePlus className="h-4 w-4 mr-1" />
+                {template.logo ? 'Trocar' : 'Escolher imagem'}
+              </Button>
+              {template.logo && (
+                <Button size="sm" variant="ghost" onClick={() => update({ logo: null })} title="Remover logotipo">
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+              <input
+                ref={logoInputRef}
+                type="file"
+                accept="image/png,image/jpeg"
+                className="hidden"
+                onChange={(e) => {
+                  chooseLogo(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Idioma</Label>
+            <Select value={template.language} onValueChange={(value: ReportLanguage) => update({ language: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pt">Português</SelectItem>
+                <SelectItem value="en">English</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-notes">Observações do treinador</Label>
+            <Textarea
+              id="report-notes"
+              rows={5}
+              value={template.coachNotes}
+              onChange={(e) => update({ coachNotes: e.target.value })}
+              placeholder="Pontos a trabalhar, plano para o próximo treino..."
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={generate} disabled={isGenerating}>
+            <Download className="h-4 w-4 mr-2" />
+            {isGenerating ? 'Gerando...' : 'Gerar PDF'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,49 @@
+import { SHOT_TYPE_LABELS } from '@/data/labels';
+import { HitEvent } from '@/utils/HitDetector';
+import { SHOT_TYPES, summarizeShotTypes } from '@/utils/ShotClassifier';
+
+interface ShotBreakdownProps {
+  hits: HitEvent[];
+}
+
+export const ShotBreakdown = ({ hits }: ShotBreakdownProps) => {
+  const summary = summarizeShotTypes(hits);
+  const trackIds = Object.keys(summary).map(Number).sort((a, b) => a - b);
+  if (trackIds.length === 0) return null;
+
+  const usedTypes = SHOT_TYPES.filter(type => trackIds.some(id => summary[id][type].count > 0));
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">🎾 Golpes por tipo</div>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="text-left font-normal py-1">Tipo</th>
+            {trackIds.map(id => (
+              <th key={id} className="text-right font-normal py-1">Jogador #{id}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {usedTypes.map(type => (
+            <tr key={type} className="border-t">
+              <td className="py-1">{SHOT_TYPE_LABELS[type]}</td>
+              {trackIds.map(id => {
+                const stats = summary[id][type];
+                return (
+                  <td key={id} className="text-right py-1">
+                    {stats.count}
+                    {stats.successRate !== null && (
+                      <span className="ml-1 text-muted-foreground">({stats.successRate.toFixed(0)}%)</span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
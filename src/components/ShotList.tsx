@@ -0,0 +1,77 @@
+import { SHOT_TYPE_LABELS, SPIN_LABELS } from '@/data/labels';
+import { HitEvent, groupHitsByPlayer } from '@/utils/HitDetector';
+
+interface ShotListProps {
+  hits: HitEvent[];
+  onSelect?: (hit: HitEvent) => void;
+}
+
+const formatPosition = (hit: HitEvent) =>
+  hit.playerPosition
+    ? `(${hit.playerPosition[0].toFixed(1)} m, ${hit.playerPosition[1].toFixed(1)} m)`
+    : 'posição desconhecida';
+
+const formatDirection = (hit: HitEvent) => {
+  if (hit.directionAngle === null) return '';
+  const side = hit.directionAngle > 5 ? 'à direita' : hit.directionAngle < -5 ? 'à esquerda' : 'reto';
+  const speed = hit.speed !== null ? ` · ${(hit.speed * 3.6).toFixed(0)} km/h` : '';
+  return `${Math.abs(hit.directionAngle).toFixed(0)}° ${side}${speed}`;
+};
+
+const formatBiomechanics = ({ kneeBend, shoulderRotation, contactHeight, armExtension }: NonNullable<HitEvent['biomechanics']>) =>
+  [
+    kneeBend !== null && `joelho ${kneeBend.toFixed(0)}°`,
+    shoulderRotation !== null && `ombros ${shoulderRotation.toFixed(0)}°`,
+    contactHeight !== null && `contato ${(contactHeight * 100).toFixed(0)}% da altura`,
+    armExtension !== null && `cotovelo ${armExtension.toFixed(0)}°`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+export const ShotList = ({ hits, onSelect }: ShotListProps) => {
+  const byPlayer = groupHitsByPlayer(hits);
+  const trackIds = Object.keys(byPlayer).map(Number).sort((a, b) => a - b);
+
+  if (trackIds.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nenhum golpe detectado.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {trackIds.map(trackId => (
+        <div key={trackId} className="space-y-2">
+          <h4 className="font-semibold">
+            Jogador #{trackId} · {byPlayer[trackId].length} golpes
+          </h4>
+          <div className="max-h-60 overflow-y-auto divide-y">
+            {byPlayer[trackId].map(hit => (
+              <button
+                key={hit.frame}
+                type="button"
+                className="w-full flex flex-wrap items-center gap-x-3 py-1.5 text-left text-xs hover:bg-muted/50"
+                onClick={() => onSelect?.(hit)}
+              >
+                <span className="w-12 font-mono text-muted-foreground">{hit.timestamp.toFixed(1)}s</span>
+                {hit.shotType && (
+                  <span className="w-24 font-medium">
+                    {SHOT_TYPE_LABELS[hit.shotType]}
+                    {hit.spin && hit.spin !== 'unknown' && (
+                      <span className="ml-1 font-normal text-muted-foreground">{SPIN_LABELS[hit.spin]}</span>
+                    )}
+                  </span>
+                )}
+                <span className="flex-1">{formatPosition(hit)}</span>
+                <span className="text-muted-foreground">{formatDirection(hit)}</span>
+                {hit.biomechanics && (
+                  <span className="basis-full pl-[3.75rem] text-muted-foreground">
+                    {formatBiomechanics(hit.biomechanics)}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -2,49 +2,36 @@ import React, { useRef, useMemo, useEffect } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, Text, Line, Sphere, Box } from '@react-three/drei';
 import * as THREE from 'three';
-
-interface MovementPoint3D {
-  x: number;
-  y: number;
-  z: number;
-  timestamp: number;
-  speed: number;
-}
+import { COURT_DIMENSIONS, COURT_LINES } from '@/data/courtModel';
+import { BOUNCE_VERDICT_COLORS, TRACK_COLORS } from '@/data/labels';
+import { BounceEvent } from '@/utils/BounceDetector';
+import { Analysis3D, MovementInsights, MovementPoint3D } from '@/utils/courtMovement';
 
 interface TennisAnalysis3DProps {
-  playerMovement: MovementPoint3D[];
-  ballTrajectory: MovementPoint3D[];
-  insights: {
-    averageSpeed: number;
-    courtCoverage: number;
-    efficiency: number;
-  };
+  data: Analysis3D;
+  bounces?: BounceEvent[];
 }
 
 const TennisCourt = () => {
   return (
     <group>
       {/* Court Base */}
-      <Box args={[23.77, 0.1, 10.97]} position={[0, -0.05, 0]}>
+      <Box args={[COURT_DIMENSIONS.length, 0.1, COURT_DIMENSIONS.doublesWidth]} position={[0, -0.05, 0]}>
         <meshStandardMaterial color="#2d5a3d" />
       </Box>
       
-      {/* Court Lines */}
-      <Line
-        points={[[-11.885, 0.01, -5.485], [11.885, 0.01, -5.485], [11.885, 0.01, 5.485], [-11.885, 0.01, 5.485], [-11.885, 0.01, -5.485]]}
-        color="white"
-        lineWidth={2}
-      />
-      
-      {/* Service lines */}
-      <Line points={[[-6.4, 0.01, -4.115], [6.4, 0.01, -4.115]]} color="white" lineWidth={2} />
-      <Line points={[[-6.4, 0.01, 4.115], [6.4, 0.01, 4.115]]} color="white" lineWidth={2} />
-      
-      {/* Center line */}
-      <Line points={[[0, 0.01, -4.115], [0, 0.01, 4.115]]} color="white" lineWidth={2} />
+      {/* Court Lines (modelo ITF compartilhado com a detecção de quadra) */}
+      {COURT_LINES.map(line => (
+        <Line
+          key={line.name}
+          points={[[line.start[0], 0.01, line.start[1]], [line.end[0], 0.01, line.end[1]]]}
+          color="white"
+          lineWidth={2}
+        />
+      ))}
       
       {/* Net */}
-      <Box args={[0.1, 1.07, 12.8]} position={[0, 0.535, 0]}>
+      <Box args={[0.1, COURT_DIMENSIONS.netHeightPosts, COURT_DIMENSIONS.netLength]} position={[0, COURT_DIMENSIONS.netHeightPosts / 2, 0]}>
         <meshStandardMaterial color="#ffffff" transparent opacity={0.3} />
       </Box>
     </group>
@@ -150,7 +137,31 @@ const HeatmapVisualization = ({ points }: { points: MovementPoint3D[] }) => {
   );
 };
 
-const Analytics3D = ({ insights }: { insights: TennisAnalysis3DProps['insights'] }) => {
+const BounceMarkers = ({ bounces }: { bounces: BounceEvent[] }) => {
+  return (
+    <group>
+      {bounces.map(bounce => (
+        <mesh
+          key={bounce.frame}
+          position={[bounce.court[0], 0.02, bounce.court[1]]}
+          rotation={[-Math.PI / 2, 0, 0]}
+        >
+          <circleGeometry args={[0.2, 24]} />
+          <meshStandardMaterial
+            color={BOUNCE_VERDICT_COLORS[bounce.verdict]}
+            emissive={BOUNCE_VERDICT_COLORS[bounce.verdict]}
+            emissiveIntensity={0.4}
+          />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+const formatInsight = (value: number | null, digits: number, unit: string) =>
+  value === null ? '-' : `${value.toFixed(digits)} ${unit}`;
+
+const Analytics3D = ({ insights }: { insights: MovementInsights }) => {
   return (
     <group position={[15, 5, 0]}>
       <Text
@@ -169,7 +180,7 @@ const Analytics3D = ({ insights }: { insights: TennisAnalysis3DProps['insights']
         anchorX="center"
         anchorY="middle"
       >
-        Velocidade: {insights.averageSpeed.toFixed(1)} km/h
+        Deslocamento médio: {formatInsight(insights.averageSpeed, 1, 'km/h')}
       </Text>
       <Text
         position={[0, 0, 0]}
@@ -178,7 +189,7 @@ const Analytics3D = ({ insights }: { insights: TennisAnalysis3DProps['insights']
         anchorX="center"
         anchorY="middle"
       >
-        Cobertura: {insights.courtCoverage.toFixed(1)}%
+        Área percorrida: {formatInsight(insights.courtCoverage, 0, 'm²')}
       </Text>
       <Text
         position={[0, -1, 0]}
@@ -187,17 +198,18 @@ const Analytics3D = ({ insights }: { insights: TennisAnalysis3DProps['insights']
         anchorX="center"
         anchorY="middle"
       >
-        Eficiência: {insights.efficiency.toFixed(1)}%
+        Golpes certos: {formatInsight(insights.successRate, 0, '%')}
       </Text>
     </group>
   );
 };
 
 export const TennisAnalysis3D: React.FC<TennisAnalysis3DProps> = ({
-  playerMovement,
-  ballTrajectory,
-  insights
+  data,
+  bounces = []
 }) => {
+  const playerMovement = useMemo(() => data.players.flatMap(path => path.points), [data.players]);
+
   return (
     <div className="w-full h-[600px] bg-gradient-to-b from-slate-900 to-slate-800 rounded-lg overflow-hidden">
       <Canvas
@@ -210,9 +222,16 @@ export const TennisAnalysis3D: React.FC<TennisAnalysis3DProps> = ({
         
         <TennisCourt />
         <HeatmapVisualization points={playerMovement} />
-        <PlayerMovementPath points={playerMovement} color="#00ff88" />
-        <BallTrajectory points={ballTrajectory} />
-        <Analytics3D insights={insights} />
+        {data.players.map(path => (
+          <PlayerMovementPath
+            key={path.trackId}
+            points={path.points}
+            color={TRACK_COLORS[path.trackId % TRACK_COLORS.length]}
+          />
+        ))}
+        <BallTrajectory points={data.ball} />
+        <BounceMarkers bounces={bounces} />
+        <Analytics3D insights={data.insights} />
         
         <OrbitControls
           enablePan={true}
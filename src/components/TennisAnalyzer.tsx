@@ -1,52 +1,201 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Play, Pause, RotateCcw, Download, Eye } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Play, Pause, RotateCcw, Download, Eye, Upload, Crosshair, AlertTriangle, Settings, Square, History, FileUp, Link2, RefreshCw } from 'lucide-react';
 import { TennisAnalysis3D } from './TennisAnalysis3D';
-import { getRandomProfessionalPlayer, compareWithProfessional } from '@/data/professionalPlayers';
-import { VideoProcessor } from '@/utils/VideoProcessor';
-
-interface MovementPoint3D {
-  x: number;
-  y: number;
-  z: number;
-  timestamp: number;
-  speed: number;
-}
+import { CourtCalibrationOverlay } from './CourtCalibrationOverlay';
+import { BounceList } from './BounceList';
+import { RallyList } from './RallyList';
+import { ShotList } from './ShotList';
+import { ShotBreakdown } from './ShotBreakdown';
+import { BackendStatus } from './BackendStatus';
+import { ModelSettingsPanel } from './ModelSettingsPanel';
+import { HeatmapView } from './HeatmapView';
+import { DetectionOverlay } from './DetectionOverlay';
+import { EventTimeline } from './EventTimeline';
+import { ReportDialog } from './ReportDialog';
+import { AnalysisExportMenu } from './AnalysisExportMenu';
+import { AnalysisWorkerClient } from '@/utils/AnalysisWorkerClient';
+import { probeFrameRate } from '@/utils/FrameSource';
+import { BackendReport } from '@/utils/inferenceBackend';
+import { isAbortError } from '@/utils/abort';
+import {
+  AnalysisCheckpoint,
+  CheckpointTarget,
+  checkpointProgress,
+  countCheckpoints,
+  deleteCheckpoint,
+  fileCheckpointTarget,
+  loadCheckpoint,
+  urlCheckpointTarget,
+} from '@/utils/analysisCheckpoint';
+import { DEFAULT_SAMPLING, SamplingMode, SamplingSettings } from '@/utils/frameSampler';
+import {
+  DETECTOR_MODELS,
+  ModelSettings,
+  ensureModelsInstalled,
+  loadModelSettings,
+  saveModelSettings,
+} from '@/utils/modelRegistry';
+import { CourtCalibration } from '@/utils/CourtDetector';
+import { BounceEvent } from '@/utils/BounceDetector';
+import { Rally } from '@/utils/PointSegmenter';
+import { HitEvent } from '@/utils/HitDetector';
+import { HeatmapSeries } from '@/utils/heatmap';
+import { CourtHeatmaps } from '@/utils/CourtHeatmap';
+import { Analysis3D, buildAnalysis3D } from '@/utils/courtMovement';
+import { TennisAnalysis } from '@/utils/VideoProcessor';
+import { VideoAnalysisResult, VideoStats } from '@/workers/analysisProtocol';
+import { AnalysisExport, createAnalysisExport, importAnalysisFile } from '@/utils/analysisExport';
+import {
+  AnalysisSession,
+  MAX_STORED_VIDEO_BYTES,
+  SessionVideo,
+  captureThumbnail,
+  createSessionKey,
+  defaultSessionPlayers,
+  loadSession,
+  loadSessionData,
+  saveSession,
+  sessionStats,
+} from '@/utils/analysisSession';
+import { MatchMoment, matchUrl, resolveMomentTime } from '@/utils/matchLink';
+import {
+  ACCEPTED_VIDEO_TYPES,
+  decodeFailureReason,
+  validateVideoFile,
+  validateVideoMetadata,
+  waitForVideoData,
+} from '@/utils/videoFile';
 
 interface AnalysisData {
-  playerHeatmap: number[][];
-  ballHeatmap: number[][];
+  sourceLabel: string;        // nome do arquivo ou URL analisado
+  analyzedAt: Date;
+  frameRate: number;
+  stats: VideoStats;
+  analyses: TennisAnalysis[]; // uma entrada por amostra analisada, para a sobreposição no vídeo
+  heatmaps: HeatmapSeries[];
+  courtHeatmaps: CourtHeatmaps;
+  frameSize: { width: number; height: number };
   shots: number;
   winners: number;
   errors: number;
-  rallies: Array<{
-    duration: number;
-    shots: number;
-    winner: 'player1' | 'player2' | 'error';
-  }>;
-  movement3D: MovementPoint3D[];
-  ballTrajectory3D: MovementPoint3D[];
-  insights3D: {
-    averageSpeed: number;
-    courtCoverage: number;
-    efficiency: number;
-  };
-  professionalComparison?: {
-    professional: any;
-    improvements: string[];
-    similarityScore: number;
+  forcedErrors: number;
+  unforcedErrors: number;
+  rallies: Rally[];
+  hits: HitEvent[];
+  analysis3D: Analysis3D | null; // null sem posições na quadra
+  calibration: CourtCalibration | null;
+  bounces: BounceEvent[];
+}
+
+// Dados exibidos a partir do resultado do worker ou de uma análise importada
+const buildAnalysisData = (
+  { frameRate, width, height, analyses, heatmaps, courtHeatmaps, bounces, hits, rallies, stats }: Omit<VideoAnalysisResult, 'backends'>,
+  sourceLabel: string,
+  analyzedAt: Date,
+  calibration: CourtCalibration | null
+): AnalysisData => {
+  return {
+    sourceLabel,
+    analyzedAt,
+    frameRate,
+    stats,
+    analyses,
+    heatmaps,
+    courtHeatmaps,
+    frameSize: { width, height },
+    shots: stats.shots,
+    winners: stats.winners,
+    errors: stats.errors,
+    forcedErrors: stats.forcedErrors,
+    unforcedErrors: stats.unforcedErrors,
+    rallies,
+    hits,
+    analysis3D: buildAnalysis3D(analyses, hits, bounces, courtHeatmaps),
+    calibration,
+    bounces
   };
+};
+
+// Reabre uma exportação ou uma sessão salva sem rodar os modelos
+const analysisDataFromExport = (exported: AnalysisExport, calibration: CourtCalibration | null): AnalysisData => {
+  const { source, summary } = exported;
+  return buildAnalysisData(
+    { ...exported, ...summary, frameRate: source.frameRate, width: source.width, height: source.height },
+    source.label,
+    new Date(source.analyzedAt),
+    calibration
+  );
+};
+
+const exportAnalysisData = (data: AnalysisData, backends: VideoAnalysisResult['backends'] | null): AnalysisExport =>
+  createAnalysisExport(
+    { label: data.sourceLabel, analyzedAt: data.analyzedAt.toISOString() },
+    { ...data, width: data.frameSize.width, height: data.frameSize.height, backends }
+  );
+
+// Guarda a análise como sessão da biblioteca, com o vídeo local se couber no navegador
+const saveToLibrary = (
+  exported: AnalysisExport,
+  calibration: CourtCalibration | null,
+  video: HTMLVideoElement | null,
+  file: File | null
+): Promise<AnalysisSession> => {
+  const storeVideo = file !== null && file.size <= MAX_STORED_VIDEO_BYTES;
+  const sessionVideo: SessionVideo = file
+    ? { kind: 'file', name: file.name, size: file.size, lastModified: file.lastModified, stored: storeVideo }
+    : video?.currentSrc
+      ? { kind: 'url', url: video.currentSrc }
+      : { kind: 'none' };
+  const key = createSessionKey();
+  return saveSession(
+    {
+      key,
+      label: exported.source.label,
+      analyzedAt: exported.source.analyzedAt,
+      updatedAt: Date.now(),
+      duration: exported.analyses[exported.analyses.length - 1]?.timestamp ?? 0,
+      thumbnail: captureThumbnail(video),
+      players: defaultSessionPlayers(exported),
+      tags: [],
+      video: sessionVideo,
+      stats: sessionStats(exported),
+    },
+    { key, video: storeVideo ? file : null, calibration, analysis: exported }
+  );
+};
+
+interface TennisAnalyzerProps {
+  // Sessão da biblioteca a reabrir, e o momento dela pedido no link
+  sessionKey?: string | null;
+  moment?: MatchMoment | null;
 }
 
-export const TennisAnalyzer = () => {
+export const TennisAnalyzer = ({ sessionKey = null, moment = null }: TennisAnalyzerProps) => {
+  const momentTime = moment?.time ?? null;
+  const momentRally = moment?.rally ?? null;
   const { toast } = useToast();
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const videoProcessorRef = useRef<VideoProcessor>(new VideoProcessor());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const objectUrlRef = useRef<string | null>(null);
+  // Arquivo local no player, guardado com a sessão na biblioteca
+  const videoFileRef = useRef<File | null>(null);
+  const analysisClientRef = useRef<AnalysisWorkerClient>(new AnalysisWorkerClient());
+  // Lida no momento da análise, que pode começar no mesmo clique que limpou a calibração
+  const calibrationRef = useRef<CourtCalibration | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const targetRef = useRef<CheckpointTarget | null>(null);
+  // Taxa de quadros do vídeo no player, medida na análise ou sob demanda na calibração
+  const frameRateRef = useRef<number | null>(null);
   
   const [youtubeUrl, setYoutubeUrl] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -55,6 +204,76 @@ export const TennisAnalyzer = () => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [videoLoaded, setVideoLoaded] = useState(false);
   const [show3D, setShow3D] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [calibrationFrame, setCalibrationFrame] = useState(0);
+  const [calibration, setCalibration] = useState<CourtCalibration | null>(null);
+  const [poseEnabled, setPoseEnabled] = useState(false);
+  const [backendReport, setBackendReport] = useState<{ detector: BackendReport; pose: BackendReport | null } | null>(null);
+  const [analysisFailure, setAnalysisFailure] = useState<string | null>(null);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(loadModelSettings);
+  const [showModelSettings, setShowModelSettings] = useState(false);
+  const [sampling, setSampling] = useState<SamplingSettings>(DEFAULT_SAMPLING);
+  const [isPaused, setIsPaused] = useState(false);
+  const [resumableCheckpoint, setResumableCheckpoint] = useState<AnalysisCheckpoint | null>(null);
+  const [savedCheckpointCount, setSavedCheckpointCount] = useState(0);
+  const [showReport, setShowReport] = useState(false);
+  // Sessão da biblioteca com a análise exibida, para gerar links para ela
+  const [currentSessionKey, setCurrentSessionKey] = useState<string | null>(null);
+  const [activeRally, setActiveRally] = useState<number | null>(null);
+
+  // O worker de análise vive enquanto o componente estiver montado
+  useEffect(() => {
+    const client = analysisClientRef.current;
+    return () => client.terminate();
+  }, []);
+
+  // Análises interrompidas de sessões anteriores continuam no IndexedDB
+  useEffect(() => {
+    countCheckpoints()
+      .then(setSavedCheckpointCount)
+      .catch(error => console.warn('Não foi possível consultar os checkpoints salvos:', error));
+  }, []);
+
+  const releaseObjectUrl = () => {
+    if (objectUrlRef.current) {
+      URL.revokeObjectURL(objectUrlRef.current);
+      objectUrlRef.current = null;
+    }
+  };
+
+  const clearCalibration = () => {
+    setCalibration(null);
+    setIsCalibrating(false);
+    calibrationRef.current = null;
+  };
+
+  // Reabre um vídeo remoto de uma sessão salva
+  const loadVideoUrl = (url: string) => {
+    const videoElement = videoRef.current;
+    if (!videoElement) return;
+    clearCalibration();
+    releaseObjectUrl();
+    videoElement.src = url;
+    videoElement.crossOrigin = "anonymous";
+    targetRef.current = urlCheckpointTarget(videoElement.src);
+    videoFileRef.current = null;
+    frameRateRef.current = null;
+    videoElement.load();
+    setVideoLoaded(true);
+  };
+
+  const unloadVideo = () => {
+    targetRef.current = null;
+    videoFileRef.current = null;
+    frameRateRef.current = null;
+    setVideoLoaded(false);
+    if (videoRef.current) {
+      videoRef.current.removeAttribute('src');
+      videoRef.current.load();
+    }
+    releaseObjectUrl();
+  };
 
   const downloadVideo = useCallback(async (url: string) => {
     try {
@@ -71,9 +290,14 @@ export const TennisAnalyzer = () => {
       // Usar vídeo de tênis real para demonstração
       const videoElement = videoRef.current;
       if (videoElement) {
+        clearCalibration();
+        releaseObjectUrl();
         // Vídeo de tênis público para demonstração
         videoElement.src = "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerEscapes.mp4";
         videoElement.crossOrigin = "anonymous";
+        targetRef.current = urlCheckpointTarget(videoElement.src);
+        videoFileRef.current = null;
+        frameRateRef.current = null;
         videoElement.load();
         setVideoLoaded(true);
       }
@@ -90,111 +314,216 @@ export const TennisAnalyzer = () => {
     }
   }, [toast]);
 
-  const analyzeVideo = useCallback(async () => {
-    if (!videoRef.current || !canvasRef.current) return;
+  const loadLocalFile = useCallback(async (file: File) => {
+    const videoElement = videoRef.current;
+    if (!videoElement) return false;
+
+    const rejectFile = (reason: string) => {
+      toast({
+        title: "Vídeo inválido",
+        description: reason,
+        variant: "destructive",
+      });
+      return false;
+    };
+
+    const fileCheck = validateVideoFile(file);
+    if (!fileCheck.valid) {
+      return rejectFile(fileCheck.reason);
+    }
+
+    // Carregar o arquivo local direto no player via object URL, sem etapa de download
+    clearCalibration();
+    releaseObjectUrl();
+    const objectUrl = URL.createObjectURL(file);
+    objectUrlRef.current = objectUrl;
+    targetRef.current = fileCheckpointTarget(file);
+    frameRateRef.current = null;
+    videoElement.removeAttribute('crossorigin');
+    videoElement.src = objectUrl;
+    videoElement.load();
+
+    try {
+      await waitForVideoData(videoElement);
+    } catch (error) {
+      console.error('Erro ao carregar vídeo local:', error);
+      releaseObjectUrl();
+      videoElement.removeAttribute('src');
+      return rejectFile(decodeFailureReason(file, videoElement));
+    }
+
+    const metadataCheck = validateVideoMetadata(videoElement);
+    if (!metadataCheck.valid) {
+      releaseObjectUrl();
+      videoElement.removeAttribute('src');
+      videoElement.load();
+      return rejectFile(metadataCheck.reason);
+    }
+
+    videoFileRef.current = file;
+    setYoutubeUrl('');
+    setVideoLoaded(true);
+    toast({
+      title: "Vídeo carregado",
+      description: `${file.name} (${videoElement.videoWidth}x${videoElement.videoHeight}, ${Math.round(videoElement.duration)}s)`,
+    });
+    return true;
+  }, [toast]);
+
+  // Com um checkpoint, a análise continua dele com as opções, a amostragem e os modelos da época
+  const analyzeVideo = useCallback(async (resumeFrom: AnalysisCheckpoint | null = null) => {
+    if (!videoRef.current) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const target = targetRef.current;
+    const models = resumeFrom?.models ?? modelSettings;
+    const options = resumeFrom?.options ?? { poseEnabled, calibration: calibrationRef.current };
+    const frameSampling = resumeFrom?.sampling ?? sampling;
+
+    if (resumeFrom) {
+      setModelSettings(models);
+      setPoseEnabled(options.poseEnabled);
+      setSampling(frameSampling);
+      setCalibration(options.calibration);
+      calibrationRef.current = options.calibration;
+    }
 
     setIsAnalyzing(true);
-    setAnalysisProgress(0);
+    setIsPaused(false);
+    setResumableCheckpoint(null);
+    setAnalysisProgress(resumeFrom ? checkpointProgress(resumeFrom) : 0);
+    setAnalysisData(null);
+    setCurrentSessionKey(null);
+    setActiveRally(null);
+    setAnalysisFailure(null);
 
     try {
       const video = videoRef.current;
-      const canvas = canvasRef.current;
-      const processor = videoProcessorRef.current;
+      const client = analysisClientRef.current;
       
       toast({
         title: "Inicializando IA",
-        description: "Carregando modelo de detecção YOLO...",
+        description: `Carregando modelo de detecção ${DETECTOR_MODELS[models.detectorSize].label}...`,
       });
 
-      // Inicializar o processador de vídeo
-      try {
-        await processor.initialize();
-      } catch (error) {
-        console.log('Usando análise simulada devido a limitações do modelo:', error);
+      // Inicializar o processador de vídeo; sem modelo não há análise
+      await ensureModelsInstalled(models, options.poseEnabled);
+      const detector = await client.initialize(models, controller.signal);
+      setBackendReport({ detector, pose: null });
+
+      if (options.poseEnabled) {
+        toast({
+          title: "Estimativa de pose ligada",
+          description: "Carregando o modelo ViTPose para medir a mecânica dos golpes...",
+        });
       }
 
-      // Análise com progresso realista
-      const analysisResults = await processor.processVideo(
+      // Análise no worker: a interface e o player continuam responsivos
+      const result = await client.analyze(
         video,
-        canvas,
+        options,
+        frameSampling,
         (progress) => setAnalysisProgress(progress),
         (frameAnalysis) => {
           // Processar análise em tempo real se necessário
           console.log(`Frame ${frameAnalysis.frame} processado`);
-        }
+        },
+        { signal: controller.signal, target: target ?? undefined, resumeFrom }
       );
 
-      // Gerar heatmaps
-      const playerHeatmap = processor.generateHeatmap(analysisResults, canvas.width, canvas.height, 'players');
-      const ballHeatmap = processor.generateHeatmap(analysisResults, canvas.width, canvas.height, 'ball');
-      
-      // Calcular estatísticas
-      const stats = processor.calculateStats(analysisResults);
-
-      // Gerar dados 3D realistas para demonstração
-      const movement3D: MovementPoint3D[] = Array(50).fill(null).map((_, i) => ({
-        x: (Math.random() - 0.5) * 20,
-        y: 0,
-        z: (Math.random() - 0.5) * 10,
-        timestamp: i * 100,
-        speed: Math.random() * 30 + 10
-      }));
-
-      const ballTrajectory3D: MovementPoint3D[] = Array(30).fill(null).map((_, i) => ({
-        x: (Math.random() - 0.5) * 22,
-        y: Math.random() * 3 + 0.5,
-        z: (Math.random() - 0.5) * 10,
-        timestamp: i * 150,
-        speed: Math.random() * 50 + 30
-      }));
-
-      // Gerar insights 3D baseados na análise real
-      const insights3D = {
-        averageSpeed: Math.random() * 10 + 20,
-        courtCoverage: Math.random() * 20 + 70,
-        efficiency: Math.random() * 15 + 80
-      };
-
-      // Comparar com jogador profissional
-      const professionalPlayer = getRandomProfessionalPlayer();
-      const comparison = compareWithProfessional(insights3D, professionalPlayer);
-
-      // Dados baseados na análise real
-      const analysisResult: AnalysisData = {
-        playerHeatmap,
-        ballHeatmap,
-        shots: Math.max(stats.shots, 25),
-        winners: Math.max(stats.winners, 8),
-        errors: Math.max(stats.errors, 3),
-        rallies: Array(8).fill(null).map(() => ({
-          duration: Math.random() * 30 + 5,
-          shots: Math.floor(Math.random() * 20) + 3,
-          winner: Math.random() > 0.5 ? 'player1' : 'player2' as 'player1' | 'player2',
-        })),
-        movement3D,
-        ballTrajectory3D,
-        insights3D,
-        professionalComparison: comparison
-      };
+      setBackendReport(result.backends);
+      frameRateRef.current = result.frameRate;
 
+      const analysisResult = buildAnalysisData(result, target?.label ?? video.src, new Date(), calibrationRef.current);
       setAnalysisData(analysisResult);
       
       toast({
         title: "🎾 Análise completa!",
-        description: `${analysisResult.shots} golpes, ${analysisResult.winners} winners. Comparado com ${comparison.professional.name}!`,
+        description: `${analysisResult.shots} golpes, ${analysisResult.winners} winners.`,
       });
 
+      saveToLibrary(exportAnalysisData(analysisResult, result.backends), calibrationRef.current, video, videoFileRef.current)
+        .then(saved => setCurrentSessionKey(saved.key))
+        .catch(error => {
+          console.warn('Não foi possível salvar a sessão na biblioteca:', error);
+          toast({
+            title: "Análise não salva na biblioteca",
+            description: "Ela continua aberta aqui; exporte os dados para não perdê-la.",
+            variant: "destructive",
+          });
+        });
+
     } catch (error) {
+      if (isAbortError(error)) {
+        // Cancelar descarta o progresso salvo; pausar é o jeito de guardar para depois
+        if (target) {
+          await deleteCheckpoint(target.key).catch(err => console.warn('Não foi possível apagar o checkpoint:', err));
+        }
+        toast({
+          title: "Análise cancelada",
+          description: "O progresso desta análise foi descartado.",
+        });
+        return;
+      }
       console.error('Erro na análise:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      setAnalysisFailure(message);
       toast({
         title: "Erro na análise",
         description: "Falha ao processar o vídeo",
         variant: "destructive",
       });
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsAnalyzing(false);
+      setIsPaused(false);
+      countCheckpoints().then(setSavedCheckpointCount).catch(() => {});
     }
-  }, [toast]);
+  }, [toast, poseEnabled, modelSettings, sampling]);
+
+  // Vídeo com análise interrompida: oferece retomar em vez de começar de novo
+  const analyzeOrOfferResume = async () => {
+    const target = targetRef.current;
+    const saved = target
+      ? await loadCheckpoint(target.key).catch(error => {
+          console.warn('Não foi possível ler o checkpoint salvo:', error);
+          return null;
+        })
+      : null;
+    if (saved) {
+      setResumableCheckpoint(saved);
+      return;
+    }
+    await analyzeVideo();
+  };
+
+  const restartAnalysis = async () => {
+    const target = targetRef.current;
+    if (target) {
+      await deleteCheckpoint(target.key).catch(error => console.warn('Não foi possível apagar o checkpoint:', error));
+    }
+    await analyzeVideo();
+  };
+
+  const togglePauseAnalysis = () => {
+    const client = analysisClientRef.current;
+    if (client.isPaused()) {
+      client.resume();
+      setIsPaused(false);
+    } else {
+      client.pause();
+      setIsPaused(true);
+      toast({
+        title: "Análise pausada",
+        description: "O progresso fica salvo neste navegador, mesmo se a página for recarregada.",
+      });
+    }
+  };
+
+  const cancelAnalysis = () => {
+    abortRef.current?.abort();
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -210,10 +539,192 @@ export const TennisAnalyzer = () => {
 
     const success = await downloadVideo(youtubeUrl);
     if (success) {
-      await analyzeVideo();
+      await analyzeOrOfferResume();
+    }
+  };
+
+  // Reabre uma exportação sem rodar os modelos; o vídeo carregado, se houver, continua no player
+  const importAnalysis = async (file: File) => {
+    try {
+      const imported = await importAnalysisFile(file);
+      setBackendReport(imported.summary.backends);
+      setAnalysisFailure(null);
+      setAnalysisData(analysisDataFromExport(imported, null));
+      toast({
+        title: "Análise importada",
+        description: `${imported.analyses.length} frames de ${imported.source.label}, sem rodar os modelos novamente.`,
+      });
+      setCurrentSessionKey(null);
+      setActiveRally(null);
+      saveToLibrary(imported, null, null, null)
+        .then(saved => setCurrentSessionKey(saved.key))
+        .catch(error => console.warn('Não foi possível salvar a análise importada na biblioteca:', error));
+    } catch (error) {
+      console.error('Erro ao importar análise:', error);
+      toast({
+        title: "Não foi possível importar",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Recoloca no player o vídeo guardado com a sessão (ou a URL) e mostra a análise salva
+  const openSession = async (key: string): Promise<AnalysisData | null> => {
+    try {
+      const [session, data] = await Promise.all([loadSession(key), loadSessionData(key)]);
+      if (!session || !data) throw new Error('Sessão não encontrada na biblioteca');
+
+      if (data.video) {
+        if (!(await loadLocalFile(data.video))) unloadVideo();
+      } else if (session.video.kind === 'url') {
+        loadVideoUrl(session.video.url);
+      } else {
+        unloadVideo();
+      }
+
+      setCalibration(data.calibration);
+      calibrationRef.current = data.calibration;
+      if (data.video || session.video.kind === 'url') frameRateRef.current = data.analysis.source.frameRate;
+      setBackendReport(data.analysis.summary.backends);
+      setAnalysisFailure(null);
+      const reopened = analysisDataFromExport(data.analysis, data.calibration);
+      setAnalysisData(reopened);
+      setCurrentSessionKey(key);
+      setActiveRally(null);
+      toast({
+        title: "Sessão reaberta",
+        description: session.video.kind === 'file' && !session.video.stored
+          ? `${session.label}: o vídeo era grande demais para guardar no navegador; a análise aparece sem ele.`
+          : session.label,
+      });
+      return reopened;
+    } catch (error) {
+      console.error('Erro ao abrir sessão:', error);
+      toast({
+        title: "Não foi possível abrir a sessão",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  // Leva o vídeo, e com ele a sobreposição, ao ponto ou instante pedido no link
+  const jumpToMoment = (moment: MatchMoment, rallies: Rally[]) => {
+    const time = resolveMomentTime(moment, rallies);
+    if (time === null) {
+      if (moment.rally !== null) {
+        toast({
+          title: "Ponto não encontrado",
+          description: `Esta partida não tem o ponto #${moment.rally}.`,
+          variant: "destructive",
+        });
+      }
+      return;
+    }
+    setActiveRally(moment.rally);
+    seekTo(time);
+  };
+
+  // Só abre a sessão quando a chave muda; com a mesma partida, o link apenas muda o momento
+  const openMatch = async (key: string, moment: MatchMoment) => {
+    const data = key === currentSessionKey && analysisData ? analysisData : await openSession(key);
+    if (data) jumpToMoment(moment, data.rallies);
+  };
+
+  const openMatchRef = useRef(openMatch);
+  openMatchRef.current = openMatch;
+  useEffect(() => {
+    if (sessionKey) openMatchRef.current(sessionKey, { time: momentTime, rally: momentRally });
+  }, [sessionKey, momentTime, momentRally]);
+
+  // Com um ponto selecionado e o vídeo dentro dele, o link aponta o ponto; senão, o instante
+  const copyMomentLink = async () => {
+    if (!currentSessionKey || !analysisData) return;
+    const time = videoRef.current?.currentTime ?? 0;
+    const rally = analysisData.rallies.find(r => r.index === activeRally && time >= r.startTime && time <= r.endTime);
+    const url = matchUrl(currentSessionKey, rally ? { rally: rally.index } : { time });
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copiado",
+        description: rally ? `Ponto #${rally.index}: ${url}` : url,
+      });
+    } catch (error) {
+      console.warn('Não foi possível copiar o link:', error);
+      toast({ title: "Copie o link", description: url });
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || isAnalyzing) return;
+    if (/\.(json|ndjson|jsonl)$/i.test(file.name)) {
+      await importAnalysis(file);
+      return;
+    }
+
+    const success = await loadLocalFile(file);
+    if (success) {
+      await analyzeOrOfferResume();
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  // O frame da calibração usa a mesma contagem do sourceFrame das análises
+  const startCalibration = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    setIsPlaying(false);
+    if (frameRateRef.current === null) {
+      try {
+        frameRateRef.current = await probeFrameRate(video.currentSrc || video.src);
+      } catch (error) {
+        console.error('Erro ao medir a taxa de quadros:', error);
+        toast({
+          title: "Não foi possível calibrar",
+          description: "A taxa de quadros do vídeo não pôde ser medida.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    setCalibrationFrame(Math.floor(video.currentTime * frameRateRef.current + 1e-3));
+    setIsCalibrating(true);
+  };
+
+  const saveCalibration = (newCalibration: CourtCalibration) => {
+    setCalibration(newCalibration);
+    setIsCalibrating(false);
+    // O worker passa a usar esta homografia em todos os frames das próximas análises
+    calibrationRef.current = newCalibration;
+    toast({
+      title: "Quadra calibrada",
+      description: "Reanalise o vídeo pelo botão ao lado para aplicá-la a todos os frames.",
+    });
+  };
+
+  // Pausa antes de posicionar, para o frame pedido ficar na tela
+  const seekTo = (time: number) => {
+    if (videoRef.current) {
+      videoRef.current.pause();
+      videoRef.current.currentTime = time;
+      setIsPlaying(false);
     }
   };
 
+  // Um ponto escolhido na lista ou na linha do tempo vira o ponto ativo
+  const selectRally = (rally: Rally) => {
+    setActiveRally(rally.index);
+    seekTo(rally.startTime);
+  };
+
   const togglePlayPause = () => {
     if (videoRef.current) {
       if (isPlaying) {
@@ -225,13 +736,19 @@ export const TennisAnalyzer = () => {
     }
   };
 
+  // Também interrompe uma análise em andamento
   const resetAnalysis = () => {
+    abortRef.current?.abort();
+    setResumableCheckpoint(null);
     setAnalysisData(null);
-    setVideoLoaded(false);
+    setCurrentSessionKey(null);
+    setActiveRally(null);
     setAnalysisProgress(0);
     setYoutubeUrl('');
-    if (videoRef.current) {
-      videoRef.current.src = '';
+    unloadVideo();
+    clearCalibration();
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
   };
 
@@ -263,105 +780,308 @@ export const TennisAnalyzer = () => {
             </Button>
           </form>
 
+          <div
+            className={`flex flex-col items-center gap-2 rounded-lg border-2 border-dashed p-6 text-center transition-colors ${
+              isDragging ? 'border-tennis-court bg-tennis-court/10' : 'border-muted'
+            }`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              if (!isAnalyzing) setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+          >
+            <Upload className="h-6 w-6 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              Arraste um vídeo do treino (MP4, WebM ou MOV) ou
+            </p>
+            {savedCheckpointCount > 0 && !videoLoaded && (
+              <p className="text-xs text-muted-foreground">
+                {savedCheckpointCount === 1
+                  ? 'Há uma análise interrompida salva neste navegador'
+                  : `Há ${savedCheckpointCount} análises interrompidas salvas neste navegador`}
+                : carregue o mesmo vídeo para retomar.
+              </p>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={isAnalyzing}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Escolher arquivo
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={[...new Set(Object.values(ACCEPTED_VIDEO_TYPES))].join(',') + ',.mov,.m4v'}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                // Limpo já na escolha: depois de uma rejeição, o mesmo arquivo pode ser escolhido de novo
+                e.target.value = '';
+                handleFile(file);
+              }}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={isAnalyzing}
+              onClick={() => importInputRef.current?.click()}
+            >
+              <FileUp className="h-4 w-4 mr-1" />
+              Importar análise exportada (JSON ou NDJSON)
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.ndjson,.jsonl,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) importAnalysis(file);
+              }}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="pose-estimation"
+              checked={poseEnabled}
+              onCheckedChange={setPoseEnabled}
+              disabled={isAnalyzing}
+            />
+            <Label htmlFor="pose-estimation" className="text-sm">
+              Medir a mecânica dos golpes (pose dos jogadores, análise mais lenta)
+            </Label>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="ml-auto"
+              onClick={() => setShowModelSettings(!showModelSettings)}
+              title="Configurar modelos"
+            >
+              <Settings className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Label className="text-sm">Amostragem de frames</Label>
+            <Select
+              value={sampling.mode}
+              onValueChange={(mode: SamplingMode) => setSampling({ ...sampling, mode })}
+              disabled={isAnalyzing}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="full">Todos os frames</SelectItem>
+                <SelectItem value="stride">A cada N frames</SelectItem>
+                <SelectItem value="adaptive">Adaptativa (densa nos pontos)</SelectItem>
+              </SelectContent>
+            </Select>
+            {sampling.mode === 'stride' && (
+              <Input
+                type="number"
+                min={1}
+                max={60}
+                className="w-20"
+                value={sampling.stride}
+                onChange={(e) => setSampling({ ...sampling, stride: Math.max(1, Number(e.target.value) || 1) })}
+                disabled={isAnalyzing}
+                aria-label="Passo da amostragem em frames"
+              />
+            )}
+          </div>
+
+          {showModelSettings && (
+            <ModelSettingsPanel
+              settings={modelSettings}
+              onChange={(settings) => {
+                setModelSettings(settings);
+                saveModelSettings(settings);
+              }}
+              disabled={isAnalyzing}
+            />
+          )}
+
+          {backendReport && <BackendStatus detector={backendReport.detector} pose={backendReport.pose} />}
+
+          {analysisFailure && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>A análise não pôde ser feita</AlertTitle>
+              <AlertDescription>
+                {analysisFailure}. Nenhuma estatística foi gerada para este vídeo.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {resumableCheckpoint && !isAnalyzing && (
+            <Alert>
+              <History className="h-4 w-4" />
+              <AlertTitle>Análise interrompida encontrada</AlertTitle>
+              <AlertDescription className="space-y-2">
+                <p>
+                  A análise de {resumableCheckpoint.label} parou em {Math.round(checkpointProgress(resumableCheckpoint))}%{' '}
+                  ({resumableCheckpoint.analyses.length} frames analisados). Retomar usa as mesmas opções daquela análise.
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => analyzeVideo(resumableCheckpoint)}>
+                    Retomar
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={restartAnalysis}>
+                    Recomeçar do zero
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
           {isAnalyzing && (
             <div className="space-y-2">
               <Progress value={analysisProgress} className="w-full" />
-              <p className="text-sm text-muted-foreground text-center">
-                Processando vídeo: {Math.round(analysisProgress)}%
-              </p>
+              <div className="flex items-center justify-center gap-2">
+                <p className="text-sm text-muted-foreground">
+                  {isPaused ? 'Pausado em' : 'Processando vídeo:'} {Math.round(analysisProgress)}%
+                </p>
+                <Button size="sm" variant="ghost" onClick={togglePauseAnalysis} title={isPaused ? 'Continuar' : 'Pausar'}>
+                  {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={cancelAnalysis} title="Cancelar análise">
+                  <Square className="h-4 w-4" />
+                </Button>
+              </div>
             </div>
           )}
         </CardContent>
       </Card>
 
-      {videoLoaded && (
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>Vídeo</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="relative">
-                <video
-                  ref={videoRef}
-                  className="w-full rounded-lg"
-                  controls={false}
-                  onLoadedData={() => setVideoLoaded(true)}
+      {/* O player fica sempre montado para que videoRef exista antes do carregamento */}
+      <div className={videoLoaded || analysisData ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : 'hidden'}>
+        <Card className={videoLoaded ? undefined : 'hidden'}>
+          <CardHeader>
+            <CardTitle>Vídeo</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="relative">
+              <video
+                ref={videoRef}
+                className="w-full rounded-lg"
+                controls={false}
+              />
+              {analysisData && !isCalibrating && (
+                <DetectionOverlay
+                  video={videoRef.current}
+                  analyses={analysisData.analyses}
+                  bounces={analysisData.bounces}
+                  hits={analysisData.hits}
+                  frameSize={analysisData.frameSize}
+                  onSeek={seekTo}
                 />
-                <canvas
-                  ref={canvasRef}
-                  className="hidden"
+              )}
+              {isCalibrating && (
+                <CourtCalibrationOverlay
+                  video={videoRef.current}
+                  frame={calibrationFrame}
+                  onSave={saveCalibration}
+                  onCancel={() => setIsCalibrating(false)}
                 />
-                <div className="absolute bottom-4 left-4 flex gap-2">
+              )}
+              <div className="absolute bottom-4 left-4 flex gap-2">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={togglePlayPause}
+                >
+                  {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={resetAnalysis}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant={calibration ? 'default' : 'secondary'}
+                  onClick={startCalibration}
+                  disabled={isAnalyzing || isCalibrating}
+                  title={calibration ? 'Quadra calibrada manualmente — clique para refazer' : 'Calibrar quadra manualmente'}
+                >
+                  <Crosshair className="h-4 w-4" />
+                </Button>
+                {calibration && (
                   <Button
                     size="sm"
                     variant="secondary"
-                    onClick={togglePlayPause}
+                    onClick={restartAnalysis}
+                    disabled={isAnalyzing || isCalibrating}
+                    title="Analisar de novo com esta calibração"
                   >
-                    {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    <RefreshCw className="h-4 w-4" />
                   </Button>
-                  <Button
-                    size="sm"
-                    variant="secondary"
-                    onClick={resetAnalysis}
-                  >
-                    <RotateCcw className="h-4 w-4" />
-                  </Button>
-                </div>
+                )}
               </div>
-            </CardContent>
-          </Card>
+            </div>
+            {analysisData && (
+              <div className="mt-4">
+                <EventTimeline
+                  video={videoRef.current}
+                  duration={analysisData.analyses[analysisData.analyses.length - 1]?.timestamp ?? 0}
+                  rallies={analysisData.rallies}
+                  hits={analysisData.hits}
+                  bounces={analysisData.bounces}
+                  activeRally={activeRally}
+                  onSelectRally={selectRally}
+                  onSeek={seekTo}
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
 
-          {analysisData && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Estatísticas</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="text-center p-4 bg-tennis-player1/10 rounded-lg">
-                    <div className="text-2xl font-bold text-tennis-player1">
-                      {analysisData.shots}
-                    </div>
-                    <div className="text-sm text-muted-foreground">Golpes</div>
-                  </div>
-                  <div className="text-center p-4 bg-tennis-player2/10 rounded-lg">
-                    <div className="text-2xl font-bold text-tennis-player2">
-                      {analysisData.winners}
-                    </div>
-                    <div className="text-sm text-muted-foreground">Winners</div>
+        {analysisData && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Estatísticas</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="text-center p-4 bg-tennis-player1/10 rounded-lg">
+                  <div className="text-2xl font-bold text-tennis-player1">
+                    {analysisData.shots}
                   </div>
+                  <div className="text-sm text-muted-foreground">Golpes</div>
                 </div>
-                
-                <div className="text-center p-4 bg-destructive/10 rounded-lg">
-                  <div className="text-2xl font-bold text-destructive">
-                    {analysisData.errors}
+                <div className="text-center p-4 bg-tennis-player2/10 rounded-lg">
+                  <div className="text-2xl font-bold text-tennis-player2">
+                    {analysisData.winners}
                   </div>
-                  <div className="text-sm text-muted-foreground">Erros</div>
+                  <div className="text-sm text-muted-foreground">Winners</div>
+                </div>
+              </div>
+              
+              <div className="text-center p-4 bg-destructive/10 rounded-lg">
+                <div className="text-2xl font-bold text-destructive">
+                  {analysisData.errors}
                 </div>
+                <div className="text-sm text-muted-foreground">Erros</div>
+                <div className="text-xs text-muted-foreground">
+                  {analysisData.forcedErrors} forçados · {analysisData.unforcedErrors} não forçados
+                </div>
+              </div>
 
-                {analysisData.professionalComparison && (
-                  <div className="p-4 bg-primary/10 rounded-lg space-y-2">
-                    <h4 className="font-semibold text-primary">
-                      📊 Comparação com {analysisData.professionalComparison.professional.name}
-                    </h4>
-                    <div className="text-sm text-muted-foreground">
-                      Similaridade: {analysisData.professionalComparison.similarityScore.toFixed(1)}%
-                    </div>
-                    {analysisData.professionalComparison.improvements.length > 0 && (
-                      <div className="space-y-1">
-                        <div className="text-sm font-medium">💡 Sugestões:</div>
-                        {analysisData.professionalComparison.improvements.map((improvement, index) => (
-                          <div key={index} className="text-xs text-muted-foreground">
-                            • {improvement}
-                          </div>
-                        ))}
-                      </div>
-                    )}
-                  </div>
-                )}
+              <ShotBreakdown hits={analysisData.hits} />
 
-                <div className="space-y-2">
+              <div className="space-y-2">
+                {analysisData.analysis3D && (
                   <Button 
                     className="w-full" 
                     variant="outline"
@@ -370,27 +1090,89 @@ export const TennisAnalyzer = () => {
                     <Eye className="h-4 w-4 mr-2" />
                     {show3D ? 'Ocultar' : 'Mostrar'} Análise 3D
                   </Button>
-                  <Button className="w-full" variant="outline">
-                    <Download className="h-4 w-4 mr-2" />
-                    Baixar Relatório
+                )}
+                <Button className="w-full" variant="outline" onClick={() => setShowReport(true)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Baixar Relatório
+                </Button>
+                <AnalysisExportMenu createExport={() => exportAnalysisData(analysisData, backendReport)} />
+                {currentSessionKey && (
+                  <Button className="w-full" variant="outline" onClick={copyMomentLink}>
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Copiar link deste momento
                   </Button>
-                </div>
-              </CardContent>
-            </Card>
-          )}
-        </div>
-      )}
+                )}
+              </div>
+              <ReportDialog
+                open={showReport}
+                onOpenChange={setShowReport}
+                input={{
+                  title: analysisData.sourceLabel,
+                  analyzedAt: analysisData.analyzedAt,
+                  duration: analysisData.analyses[analysisData.analyses.length - 1]?.timestamp ?? 0,
+                  frameRate: analysisData.frameRate,
+                  samples: analysisData.analyses.length,
+                  stats: analysisData.stats,
+                  hits: analysisData.hits,
+                  rallies: analysisData.rallies,
+                  bounces: analysisData.bounces,
+                  courtHeatmaps: analysisData.courtHeatmaps,
+                }}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
 
-      {analysisData && show3D && (
+      {analysisData?.analysis3D && show3D && (
         <Card className="bg-gradient-to-br from-primary/5 to-secondary/5 border-primary/20">
           <CardHeader>
             <CardTitle className="text-primary">Análise 3D Profissional</CardTitle>
           </CardHeader>
           <CardContent>
-            <TennisAnalysis3D
-              playerMovement={analysisData.movement3D}
-              ballTrajectory={analysisData.ballTrajectory3D}
-              insights={analysisData.insights3D}
+            <TennisAnalysis3D data={analysisData.analysis3D} bounces={analysisData.bounces} />
+          </CardContent>
+        </Card>
+      )}
+
+      {analysisData && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pontos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RallyList
+              rallies={analysisData.rallies}
+              selectedIndex={activeRally}
+              onSelect={selectRally}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {analysisData && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Golpes por Jogador</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ShotList
+              hits={analysisData.hits}
+              onSelect={(hit) => seekTo(hit.timestamp)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {analysisData && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Quiques e Marcação de Linhas</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BounceList
+              bounces={analysisData.bounces}
+              onSelect={(bounce) => seekTo(bounce.timestamp)}
             />
           </CardContent>
         </Card>
@@ -402,25 +1184,12 @@ export const TennisAnalyzer = () => {
             <CardTitle>Heatmaps</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="space-y-2">
-                <h3 className="text-lg font-semibold text-tennis-player1">
-                  Movimentação dos Jogadores
-                </h3>
-                <div className="aspect-video bg-tennis-court/20 rounded-lg flex items-center justify-center">
-                  <p className="text-muted-foreground">Heatmap dos Jogadores</p>
-                </div>
-              </div>
-              
-              <div className="space-y-2">
-                <h3 className="text-lg font-semibold text-tennis-ball">
-                  Trajetória da Bola
-                </h3>
-                <div className="aspect-video bg-tennis-ball/20 rounded-lg flex items-center justify-center">
-                  <p className="text-muted-foreground">Heatmap da Bola</p>
-                </div>
-              </div>
-            </div>
+            <HeatmapView
+              series={analysisData.heatmaps}
+              courtHeatmaps={analysisData.courtHeatmaps}
+              frameSize={analysisData.frameSize}
+              video={videoRef.current}
+            />
           </CardContent>
         </Card>
       )}
@@ -0,0 +1,66 @@
+// Modelo oficial da quadra (ITF), em metros, com origem no centro da rede.
+// x percorre o comprimento (de -11.885 na linha de base do fundo até +11.885 na
+// linha de base próxima da câmera) e y percorre a largura.
+
+export type CourtPoint = [number, number];
+
+export const COURT_DIMENSIONS = {
+  length: 23.77,
+  doublesWidth: 10.97,
+  singlesWidth: 8.23,
+  serviceLineDistance: 6.4, // distância da rede até a linha de saque
+  netLength: 12.8,
+  netHeightPosts: 1.07,
+  netHeightCenter: 0.914,
+};
+
+export const HALF_LENGTH = COURT_DIMENSIONS.length / 2;
+export const HALF_DOUBLES_WIDTH = COURT_DIMENSIONS.doublesWidth / 2;
+export const HALF_SINGLES_WIDTH = COURT_DIMENSIONS.singlesWidth / 2;
+export const SERVICE_LINE_X = COURT_DIMENSIONS.serviceLineDistance;
+
+export type CourtLineName =
+  | 'far-baseline'
+  | 'near-baseline'
+  | 'far-service-line'
+  | 'near-service-line'
+  | 'left-doubles-sideline'
+  | 'right-doubles-sideline'
+  | 'left-singles-sideline'
+  | 'right-singles-sideline'
+  | 'center-service-line';
+
+export interface CourtLine {
+  name: CourtLineName;
+  start: CourtPoint;
+  end: CourtPoint;
+  orientation: 'transverse' | 'longitudinal';
+}
+
+export const COURT_LINES: CourtLine[] = [
+  { name: 'far-baseline', start: [-HALF_LENGTH, -HALF_DOUBLES_WIDTH], end: [-HALF_LENGTH, HALF_DOUBLES_WIDTH], orientation: 'transverse' },
+  { name: 'near-baseline', start: [HALF_LENGTH, -HALF_DOUBLES_WIDTH], end: [HALF_LENGTH, HALF_DOUBLES_WIDTH], orientation: 'transverse' },
+  { name: 'far-service-line', start: [-SERVICE_LINE_X, -HALF_SINGLES_WIDTH], end: [-SERVICE_LINE_X, HALF_SINGLES_WIDTH], orientation: 'transverse' },
+  { name: 'near-service-line', start: [SERVICE_LINE_X, -HALF_SINGLES_WIDTH], end: [SERVICE_LINE_X, HALF_SINGLES_WIDTH], orientation: 'transverse' },
+  { name: 'left-doubles-sideline', start: [-HALF_LENGTH, -HALF_DOUBLES_WIDTH], end: [HALF_LENGTH, -HALF_DOUBLES_WIDTH], orientation: 'longitudinal' },
+  { name: 'right-doubles-sideline', start: [-HALF_LENGTH, HALF_DOUBLES_WIDTH], end: [HALF_LENGTH, HALF_DOUBLES_WIDTH], orientation: 'longitudinal' },
+  { name: 'left-singles-sideline', start: [-HALF_LENGTH, -HALF_SINGLES_WIDTH], end: [HALF_LENGTH, -HALF_SINGLES_WIDTH], orientation: 'longitudinal' },
+  { name: 'right-singles-sideline', start: [-HALF_LENGTH, HALF_SINGLES_WIDTH], end: [HALF_LENGTH, HALF_SINGLES_WIDTH], orientation: 'longitudinal' },
+  { name: 'center-service-line', start: [-SERVICE_LINE_X, 0], end: [SERVICE_LINE_X, 0], orientation: 'longitudinal' },
+];
+
+export const getCourtLine = (name: CourtLineName): CourtLine =>
+  COURT_LINES.find(line => line.name === name)!;
+
+// Linhas transversais (baselines e linhas de saque) ordenadas do fundo para a câmera
+export const TRANSVERSE_LINE_POSITIONS = [-HALF_LENGTH, -SERVICE_LINE_X, SERVICE_LINE_X, HALF_LENGTH];
+
+// Linhas laterais ordenadas da esquerda para a direita (vistas da câmera)
+export const SIDELINE_POSITIONS = [-HALF_DOUBLES_WIDTH, -HALF_SINGLES_WIDTH, HALF_SINGLES_WIDTH, HALF_DOUBLES_WIDTH];
+
+export const COURT_CORNERS: CourtPoint[] = [
+  [-HALF_LENGTH, -HALF_DOUBLES_WIDTH],
+  [-HALF_LENGTH, HALF_DOUBLES_WIDTH],
+  [HALF_LENGTH, HALF_DOUBLES_WIDTH],
+  [HALF_LENGTH, -HALF_DOUBLES_WIDTH],
+];
@@ -0,0 +1,40 @@
+import { LineCall } from '@/utils/BounceDetector';
+import { PointOutcome } from '@/utils/PointSegmenter';
+import { ShotType, SpinGuess } from '@/utils/ShotClassifier';
+
+export const SHOT_TYPE_LABELS: Record<ShotType, string> = {
+  serve: 'Saque',
+  forehand: 'Forehand',
+  backhand: 'Backhand',
+  volley: 'Voleio',
+  smash: 'Smash',
+  lob: 'Lob',
+  drop: 'Drop shot',
+};
+
+export const SPIN_LABELS: Record<SpinGuess, string> = {
+  topspin: 'topspin',
+  slice: 'slice',
+  flat: 'chapado',
+  unknown: 'efeito ?',
+};
+
+export const POINT_OUTCOME_LABELS: Record<PointOutcome, string> = {
+  winner: 'Winner',
+  'forced-error': 'Erro forçado',
+  'unforced-error': 'Erro não forçado',
+  ace: 'Ace',
+  'double-fault': 'Dupla falta',
+  fault: 'Falta',
+  unknown: 'Indefinido',
+};
+
+// Cor de cada trilha na sobreposição e na linha do tempo, pelo ID
+export const TRACK_COLORS = ['#22c55e', '#3b82f6', '#f97316', '#a855f7', '#ec4899', '#14b8a6'];
+
+// Cor da marcação de linha de um quique, igual no vídeo, na linha do tempo, na quadra e no relatório
+export const BOUNCE_VERDICT_COLORS: Record<LineCall, string> = {
+  IN: '#22c55e',
+  OUT: '#ef4444',
+  TOO_CLOSE: '#facc15',
+};
@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Chama `onTime` com o tempo do vídeo a cada quadro exibido durante a
+ * reprodução (requestVideoFrameCallback, ou requestAnimationFrame sem a API)
+ * e a cada timeupdate/seeked com o vídeo parado. Pausado, nenhum laço fica rodando.
+ */
+export function useVideoTime(video: HTMLVideoElement | null, onTime: (time: number) => void) {
+  // Sempre a versão mais recente, sem reinstalar os listeners a cada renderização
+  const onTimeRef = useRef(onTime);
+  onTimeRef.current = onTime;
+
+  useEffect(() => {
+    if (!video) return;
+    const frameCallbacks = 'requestVideoFrameCallback' in video;
+    let handle: number | null = null;
+
+    const notify = () => onTimeRef.current(video.currentTime);
+    const tick = () => {
+      handle = null;
+      notify();
+      if (!video.paused && !video.ended) schedule();
+    };
+    const schedule = () => {
+      if (handle !== null) return;
+      handle = frameCallbacks ? video.requestVideoFrameCallback(tick) : requestAnimationFrame(tick);
+    };
+    const cancel = () => {
+      if (handle === null) return;
+      if (frameCallbacks) video.cancelVideoFrameCallback(handle);
+      else cancelAnimationFrame(handle);
+      handle = null;
+    };
+
+    video.addEventListener('play', schedule);
+    video.addEventListener('timeupdate', notify);
+    video.addEventListener('seeked', notify);
+    notify();
+    if (!video.paused) schedule();
+
+    return () => {
+      cancel();
+      video.removeEventListener('play', schedule);
+      video.removeEventListener('timeupdate', notify);
+      video.removeEventListener('seeked', notify);
+    };
+  }, [video]);
+}
@@ -1,4 +1,7 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
 import { TennisAnalyzer } from '@/components/TennisAnalyzer';
+import { Library } from 'lucide-react';
 
 const Index = () => {
   return (
@@ -8,9 +11,15 @@ const Index = () => {
           <h1 className="text-4xl font-bold mb-4 text-tennis-court">
             🎾 Analisador de Tênis Real
           </h1>
-          <p className="text-xl text-muted-foreground">
+          <p className="text-xl text-muted-foreground mb-4">
             Análise completa de jogos de tênis do YouTube com IA
           </p>
+          <Button asChild variant="outline">
+            <Link to="/library">
+              <Library className="h-4 w-4 mr-2" />
+              Biblioteca de partidas
+            </Link>
+          </Button>
         </div>
         <TennisAnalyzer />
       </div>
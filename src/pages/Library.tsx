@@ -0,0 +1,30 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { MatchLibrary } from '@/components/MatchLibrary';
+import { Plus } from 'lucide-react';
+
+const Library = () => {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-tennis-court/5 to-tennis-ball/5">
+      <div className="container mx-auto py-8">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold mb-4 text-tennis-court">
+            📚 Biblioteca de Partidas
+          </h1>
+          <p className="text-xl text-muted-foreground mb-4">
+            Análises salvas neste navegador, prontas para reabrir
+          </p>
+          <Button asChild variant="outline">
+            <Link to="/">
+              <Plus className="h-4 w-4 mr-2" />
+              Nova análise
+            </Link>
+          </Button>
+        </div>
+        <MatchLibrary />
+      </div>
+    </div>
+  );
+};
+
+export default Library;
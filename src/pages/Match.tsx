@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { TennisAnalyzer } from '@/components/TennisAnalyzer';
+import { parseMatchMoment } from '@/utils/matchLink';
+import { Library, Plus } from 'lucide-react';
+
+// Partida salva na biblioteca; ?t= e ?rally= levam direto a um instante ou a um ponto
+const Match = () => {
+  const { id } = useParams();
+  const [searchParams] = useSearchParams();
+  const moment = useMemo(() => parseMatchMoment(searchParams), [searchParams]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-tennis-court/5 to-tennis-ball/5">
+      <div className="container mx-auto py-8">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold mb-4 text-tennis-court">
+            🎾 Partida
+          </h1>
+          <div className="flex justify-center gap-2">
+            <Button asChild variant="outline">
+              <Link to="/library">
+                <Library className="h-4 w-4 mr-2" />
+                Biblioteca de partidas
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link to="/">
+                <Plus className="h-4 w-4 mr-2" />
+                Nova análise
+              </Link>
+            </Button>
+          </div>
+        </div>
+        <TennisAnalyzer sessionKey={id ?? null} moment={moment} />
+      </div>
+    </div>
+  );
+};
+
+export default Match;
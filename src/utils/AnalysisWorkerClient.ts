@@ -0,0 +1,245 @@
+import {
+  AnalysisOptions,
+  AnalysisWorkerRequest,
+  AnalysisWorkerResponse,
+  VideoAnalysisResult,
+} from '@/workers/analysisProtocol';
+import { BackendReport } from './inferenceBackend';
+import { ModelSettings } from './modelRegistry';
+import { DEFAULT_SAMPLING, FrameSampler, SamplingSettings } from './frameSampler';
+import { openFrameSource } from './FrameSource';
+import { abortError, isAbortError, whenAborted } from './abort';
+import { AnalysisCheckpoint, CheckpointTarget, deleteCheckpoint, saveCheckpoint } from './analysisCheckpoint';
+import { TennisAnalysis } from './VideoProcessor';
+
+export interface AnalysisRun {
+  signal?: AbortSignal;
+  target?: CheckpointTarget;              // sem alvo, a análise não salva checkpoints
+  resumeFrom?: AnalysisCheckpoint | null; // continua deste checkpoint em vez de começar do zero
+}
+
+type ResponseOf<T extends AnalysisWorkerResponse['type']> = Extract<AnalysisWorkerResponse, { type: T }>;
+
+/**
+ * Lado da thread principal da análise: decodifica os frames (WebCodecs ou um
+ * <video> próprio fora da tela) e os transfere ao worker um a um, sem bloquear
+ * o player visível.
+ */
+export class AnalysisWorkerClient {
+  private worker: Worker | null = null;
+  private pending: {
+    resolve: (response: AnalysisWorkerResponse) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private models: ModelSettings | null = null;
+  private paused: { resumed: Promise<void>; resume: () => void } | null = null;
+  private checkpointInterval = 50; // frames analisados entre checkpoints
+
+  async initialize(models: ModelSettings, signal?: AbortSignal): Promise<BackendReport> {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => this.settle(event.data);
+      this.worker.onerror = (event) => {
+        event.preventDefault();
+        this.fail(new Error(event.message || 'Worker de análise falhou'));
+      };
+    }
+    const { backend } = await this.request<'initialized'>({ type: 'initialize', models }, [], signal);
+    this.models = models;
+    return backend;
+  }
+
+  // A pausa vale a partir do próximo frame; o frame em andamento termina antes
+  pause() {
+    if (this.paused) return;
+    let resume = () => {};
+    const resumed = new Promise<void>(resolve => {
+      resume = resolve;
+    });
+    this.paused = { resumed, resume };
+  }
+
+  resume() {
+    this.paused?.resume();
+    this.paused = null;
+  }
+
+  isPaused(): boolean {
+    return this.paused !== null;
+  }
+
+  async analyze(
+    source: HTMLVideoElement,
+    options: AnalysisOptions,
+    sampling: SamplingSettings = DEFAULT_SAMPLING,
+    onProgress?: (progress: number) => void,
+    onFrame?: (analysis: TennisAnalysis) => void,
+    run: AnalysisRun = {}
+  ): Promise<VideoAnalysisResult> {
+    if (!this.worker || !this.models) {
+      throw new Error('Worker de análise não iniciado');
+    }
+
+    const { signal, target, resumeFrom } = run;
+    const models = this.models;
+    const frames = await openFrameSource(source.currentSrc || source.src);
+    console.log(`Extraindo frames via ${frames.kind === 'webcodecs' ? 'WebCodecs' : 'busca no <video>'}`);
+    try {
+      const { frameRate, frameCount: totalFrames } = frames;
+      const analyses = resumeFrom ? [...resumeFrom.analyses] : [];
+      // Uma análise nova não herda blocos de frames de uma tentativa anterior do mesmo vídeo
+      if (target && !resumeFrom) {
+        await deleteCheckpoint(target.key).catch(error => console.warn('Não foi possível apagar o checkpoint:', error));
+      }
+      await this.request<'started'>(
+        {
+          type: 'start',
+          width: frames.width,
+          height: frames.height,
+          frameRate,
+          options,
+          resume: analyses,
+          resumeState: resumeFrom?.tracking ?? null,
+        },
+        [],
+        signal
+      );
+
+      const sampler = new FrameSampler(sampling);
+      let sourceFrame = resumeFrom?.nextSourceFrame ?? 0;
+      let frameNumber = resumeFrom?.nextFrame ?? 0;
+      let sinceCheckpoint = 0;
+      let saved = analyses.length; // análises já gravadas em algum bloco do checkpoint
+
+      // Falha ao salvar não interrompe a análise: só perde a chance de retomar
+      const checkpoint = async () => {
+        sinceCheckpoint = 0;
+        if (!target) return;
+        try {
+          const { state: tracking } = await this.request<'snapshot'>({ type: 'snapshot' }, [], signal);
+          const frames = analyses.slice(saved);
+          await saveCheckpoint(
+            {
+              ...target,
+              updatedAt: Date.now(),
+              options,
+              sampling,
+              models,
+              frameRate,
+              totalFrames,
+              nextFrame: frameNumber,
+              nextSourceFrame: sourceFrame,
+              tracking,
+            },
+            frames
+          );
+          saved += frames.length;
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.warn('Não foi possível salvar o checkpoint da análise:', error);
+        }
+      };
+
+      while (sourceFrame < totalFrames) {
+        if (this.paused) {
+          await checkpoint();
+          await Promise.race([this.paused.resumed, whenAborted(signal)]);
+        }
+        if (signal?.aborted) throw abortError();
+
+        const timestamp = sourceFrame / frameRate;
+        const image = await frames.grab(sourceFrame);
+        if (!image) break;
+
+        const { analysis } = await this.request<'frame'>(
+          { type: 'frame', frame: frameNumber, sourceFrame, timestamp, image },
+          [image],
+          signal
+        );
+        if (analysis) {
+          analyses.push(analysis);
+          onFrame?.(analysis);
+        }
+
+        // Atualizar progresso
+        if (onProgress) {
+          onProgress((sourceFrame / totalFrames) * 100);
+        }
+
+        sourceFrame = sampler.nextFrame(sourceFrame, analysis);
+        frameNumber++;
+
+        if (++sinceCheckpoint >= this.checkpointInterval) {
+          await checkpoint();
+        }
+      }
+
+      const { result } = await this.request<'result'>({ type: 'finish' }, [], signal);
+      if (target) {
+        await deleteCheckpoint(target.key).catch(error => console.warn('Não foi possível apagar o checkpoint:', error));
+      }
+      return result;
+    } finally {
+      frames.close();
+      this.paused = null;
+    }
+  }
+
+  terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.fail(new Error('Worker de análise encerrado'));
+  }
+
+  // Abortar o sinal pede ao worker que cancele o pedido em andamento. O pedido
+  // fica com os objetos transferidos: se não chegar a enviá-los, fecha os frames
+  private request<T extends AnalysisWorkerResponse['type']>(
+    message: AnalysisWorkerRequest,
+    transfer: Transferable[] = [],
+    signal?: AbortSignal
+  ): Promise<ResponseOf<T>> {
+    const unsent = (error: Error) => {
+      for (const item of transfer) {
+        if (item instanceof ImageBitmap || (typeof VideoFrame !== 'undefined' && item instanceof VideoFrame)) item.close();
+      }
+      return Promise.reject(error);
+    };
+    if (!this.worker) return unsent(new Error('Worker de análise não iniciado'));
+    if (this.pending) return unsent(new Error('Já existe um pedido em andamento no worker'));
+    if (signal?.aborted) return unsent(abortError());
+
+    const cancel = () => this.worker?.postMessage({ type: 'cancel' } satisfies AnalysisWorkerRequest);
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    return new Promise((resolve, reject) => {
+      this.pending = {
+        resolve: response => {
+          signal?.removeEventListener('abort', cancel);
+          resolve(response as ResponseOf<T>);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', cancel);
+          reject(error);
+        },
+      };
+      this.worker!.postMessage(message, transfer);
+    });
+  }
+
+  private settle(response: AnalysisWorkerResponse) {
+    const pending = this.pending;
+    this.pending = null;
+    if (!pending) return;
+    if (response.type === 'error') {
+      pending.reject(response.aborted ? abortError() : new Error(response.message));
+    } else {
+      pending.resolve(response);
+    }
+  }
+
+  private fail(error: Error) {
+    const pending = this.pending;
+    this.pending = null;
+    pending?.reject(error);
+  }
+}
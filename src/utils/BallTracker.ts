@@ -0,0 +1,409 @@
+import { Point2D, solveLinearSystem } from './homography';
+import { KalmanFilter, KalmanModel, REFERENCE_FRAME_RATE } from './KalmanFilter';
+import { DetectionResult } from './VideoProcessor';
+
+export type BallTrackStatus =
+  | 'detected'     // confirmada pelo detector de objetos
+  | 'motion'       // encontrada pela diferença entre frames
+  | 'predicted'    // estimada pelo filtro de Kalman, sem medição
+  | 'interpolated' // preenchida entre medições na etapa final
+  | 'missing';
+
+export interface BallObservation {
+  frame: number;
+  timestamp: number;
+  position: Point2D | null; // centro da bola em pixels
+  confidence: number;
+  status: BallTrackStatus;
+}
+
+// Estado entre frames guardado nos checkpoints, para a trilha continuar igual ao retomar
+export interface BallTrackerState {
+  filter: { state: number[]; covariance: number[][] } | null;
+  framesPredicted: number;
+  lastTimestamp: number;
+  lastMeasured: number;
+  history: Uint8Array[]; // últimos frames em cinza da diferença de três frames
+  imageWidth: number;
+  scale: number;
+  width: number;
+  height: number;
+}
+
+interface BallCandidate {
+  position: Point2D;
+  confidence: number;
+  source: 'detected' | 'motion';
+}
+
+// Estado [x, y, vx, vy, ay]: velocidade constante na horizontal e aceleração
+// vertical (gravidade projetada na imagem) estimada pelo próprio filtro
+const createBallModel = (dt = 1): KalmanModel => ({
+  transition: [
+    [1, 0, dt, 0, 0],
+    [0, 1, 0, dt, 0.5 * dt * dt],
+    [0, 0, 1, 0, 0],
+    [0, 0, 0, 1, dt],
+    [0, 0, 0, 0, 1],
+  ],
+  observation: [
+    [1, 0, 0, 0, 0],
+    [0, 1, 0, 0, 0],
+  ],
+  processNoise: [
+    [16 * dt, 0, 0, 0, 0],
+    [0, 16 * dt, 0, 0, 0],
+    [0, 0, 64 * dt, 0, 0],
+    [0, 0, 0, 64 * dt, 0],
+    [0, 0, 0, 0, 4 * dt],
+  ],
+  measurementNoise: [
+    [9, 0],
+    [0, 9],
+  ],
+});
+
+const center = ([x1, y1, x2, y2]: DetectionResult['bbox']): Point2D => [(x1 + x2) / 2, (y1 + y2) / 2];
+
+const isInside = ([x, y]: Point2D, [x1, y1, x2, y2]: DetectionResult['bbox']) =>
+  x >= x1 && x <= x2 && y >= y1 && y <= y2;
+
+/**
+ * Rastreador dedicado da bola: combina candidatos do detector com manchas de
+ * movimento (diferença de três frames), filtra com Kalman + gating e, ao final,
+ * remove outliers e interpola as lacunas curtas.
+ */
+export class BallTracker {
+  private workingWidth = 640;
+  private motionThreshold = 25;
+  private minBlobArea = 2;
+  private maxBlobArea = 120;
+  private gate = 16;           // distância de Mahalanobis² máxima para aceitar uma medição
+  private maxPredicted = 0.1;  // segundos só com predição antes de perder a trilha
+  private maxGap = 0.3;        // maior lacuna (em segundos) preenchida por interpolação
+  private maxJump = 0.25;      // deslocamento máximo entre frames, em fração da largura
+
+  private filter: KalmanFilter | null = null;
+  private framesPredicted = 0;
+  private lastTimestamp = 0;   // amostra anterior, para o passo do filtro
+  private lastMeasured = 0;    // última medição aceita pela trilha
+  private history: Uint8Array[] = [];
+  private scale = 1;
+  private width = 0;
+  private height = 0;
+  private imageWidth = 0;
+
+  reset() {
+    this.filter = null;
+    this.framesPredicted = 0;
+    this.lastTimestamp = 0;
+    this.lastMeasured = 0;
+    this.history = [];
+  }
+
+  snapshot(): BallTrackerState {
+    return {
+      filter: this.filter && { state: [...this.filter.state], covariance: this.filter.covariance.map(row => [...row]) },
+      framesPredicted: this.framesPredicted,
+      lastTimestamp: this.lastTimestamp,
+      lastMeasured: this.lastMeasured,
+      history: [...this.history],
+      imageWidth: this.imageWidth,
+      scale: this.scale,
+      width: this.width,
+      height: this.height,
+    };
+  }
+
+  restore(state: BallTrackerState) {
+    this.filter = null;
+    if (state.filter) {
+      this.filter = new KalmanFilter(createBallModel(), state.filter.state, 0);
+      this.filter.covariance = state.filter.covariance.map(row => [...row]);
+    }
+    this.framesPredicted = state.framesPredicted;
+    this.lastTimestamp = state.lastTimestamp;
+    this.lastMeasured = state.lastMeasured;
+    this.history = [...state.history];
+    this.imageWidth = state.imageWidth;
+    this.scale = state.scale;
+    this.width = state.width;
+    this.height = state.height;
+  }
+
+  update(
+    frame: number,
+    timestamp: number,
+    image: ImageData,
+    detections: DetectionResult[],
+    people: DetectionResult[]
+  ): BallObservation {
+    const candidates: BallCandidate[] = [
+      ...detections.map(detection => ({
+        position: center(detection.bbox),
+        confidence: detection.score,
+        source: 'detected' as const,
+      })),
+      ...this.motionCandidates(image, people),
+    ];
+
+    const dt = Math.max(1e-3, (timestamp - this.lastTimestamp) * REFERENCE_FRAME_RATE);
+    this.lastTimestamp = timestamp;
+
+    if (this.filter) {
+      const [px, py] = this.filter.predict(createBallModel(dt));
+      const best = this.selectCandidate(candidates);
+
+      if (best) {
+        const [x, y] = this.filter.update(best.position);
+        this.framesPredicted = 0;
+        this.lastMeasured = timestamp;
+        return { frame, timestamp, position: [x, y], confidence: best.confidence, status: best.source };
+      }
+
+      this.framesPredicted++;
+      if (timestamp - this.lastMeasured <= this.maxPredicted) {
+        return {
+          frame,
+          timestamp,
+          position: [px, py],
+          confidence: 0.3 / this.framesPredicted,
+          status: 'predicted',
+        };
+      }
+      this.filter = null;
+    }
+
+    // Sem trilha ativa: iniciar pela detecção mais confiável, ou pela maior mancha de movimento
+    const seed = [...candidates].sort((a, b) => {
+      if (a.source !== b.source) return a.source === 'detected' ? -1 : 1;
+      return b.confidence - a.confidence;
+    })[0];
+
+    if (seed && (seed.source === 'detected' || seed.confidence >= 0.5)) {
+      this.filter = new KalmanFilter(createBallModel(), [seed.position[0], seed.position[1], 0, 0, 0], 400);
+      this.framesPredicted = 0;
+      this.lastMeasured = timestamp;
+      return { frame, timestamp, position: seed.position, confidence: seed.confidence, status: seed.source };
+    }
+
+    return { frame, timestamp, position: null, confidence: 0, status: 'missing' };
+  }
+
+  // Candidato dentro do gate mais próximo da predição; detecções têm preferência
+  private selectCandidate(candidates: BallCandidate[]): BallCandidate | null {
+    let best: BallCandidate | null = null;
+    let bestCost = Infinity;
+
+    for (const candidate of candidates) {
+      const distance = this.filter!.mahalanobis(candidate.position);
+      if (distance > this.gate) continue;
+      const cost = distance - (candidate.source === 'detected' ? 4 : 0) - candidate.confidence;
+      if (cost < bestCost) {
+        best = candidate;
+        bestCost = cost;
+      }
+    }
+
+    return best;
+  }
+
+  // Diferença de três frames: a bola aparece em |t - (t-1)| e em |t - (t-2)|
+  private motionCandidates(image: ImageData, people: DetectionResult[]): BallCandidate[] {
+    const gray = this.toGray(image);
+    this.history.push(gray);
+    if (this.history.length > 3) this.history.shift();
+    if (this.history.length < 3) return [];
+
+    const [older, previous, current] = this.history;
+    const { width, height } = this;
+    const mask = new Uint8Array(width * height);
+    for (let i = 0; i < mask.length; i++) {
+      if (
+        Math.abs(current[i] - previous[i]) > this.motionThreshold &&
+        Math.abs(current[i] - older[i]) > this.motionThreshold
+      ) {
+        mask[i] = 1;
+      }
+    }
+
+    const candidates: BallCandidate[] = [];
+    const visited = new Uint8Array(mask.length);
+    const stack: number[] = [];
+
+    for (let start = 0; start < mask.length; start++) {
+      if (!mask[start] || visited[start]) continue;
+
+      // Componente conexo por busca em profundidade
+      let area = 0;
+      let sumX = 0;
+      let sumY = 0;
+      let minX = width, minY = height, maxX = 0, maxY = 0;
+      stack.push(start);
+      visited[start] = 1;
+
+      while (stack.length > 0) {
+        const index = stack.pop()!;
+        const x = index % width;
+        const y = Math.floor(index / width);
+        area++;
+        sumX += x;
+        sumY += y;
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+
+        for (const neighbor of [index - 1, index + 1, index - width, index + width]) {
+          if (neighbor < 0 || neighbor >= mask.length || visited[neighbor] || !mask[neighbor]) continue;
+          if (Math.abs((neighbor % width) - x) > 1) continue;
+          visited[neighbor] = 1;
+          stack.push(neighbor);
+        }
+      }
+
+      if (area < this.minBlobArea || area > this.maxBlobArea) continue;
+
+      const blobWidth = maxX - minX + 1;
+      const blobHeight = maxY - minY + 1;
+      // Bolas rápidas viram um traço curto; formas muito alongadas são descartadas
+      const elongation = Math.max(blobWidth, blobHeight) / Math.min(blobWidth, blobHeight);
+      if (elongation > 4) continue;
+
+      const position: Point2D = [sumX / area / this.scale, sumY / area / this.scale];
+      if (people.some(person => isInside(position, person.bbox))) continue;
+
+      const fill = area / (blobWidth * blobHeight);
+      candidates.push({ position, confidence: Math.min(1, 0.3 + fill * 0.5), source: 'motion' });
+    }
+
+    return candidates;
+  }
+
+  private toGray(image: ImageData): Uint8Array {
+    if (image.width !== this.imageWidth) {
+      this.imageWidth = image.width;
+      this.scale = Math.min(1, this.workingWidth / image.width);
+      this.width = Math.round(image.width * this.scale);
+      this.height = Math.round(image.height * this.scale);
+      this.history = [];
+    }
+
+    const gray = new Uint8Array(this.width * this.height);
+    for (let y = 0; y < this.height; y++) {
+      const sourceY = Math.min(image.height - 1, Math.floor(y / this.scale));
+      for (let x = 0; x < this.width; x++) {
+        const sourceX = Math.min(image.width - 1, Math.floor(x / this.scale));
+        const offset = (sourceY * image.width + sourceX) * 4;
+        gray[y * this.width + x] =
+          0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+      }
+    }
+    return gray;
+  }
+
+  /**
+   * Etapa final sobre a trilha completa: descarta medições incoerentes com os
+   * vizinhos e substitui predições/lacunas curtas por interpolação parabólica.
+   */
+  finalize(observations: BallObservation[]): BallObservation[] {
+    const result = observations.map(observation => ({ ...observation }));
+    const isMeasured = (o: BallObservation) => o.status === 'detected' || o.status === 'motion';
+    const maxJump = this.imageWidth * this.maxJump;
+
+    // Rejeição de outliers: medição distante dos dois vizinhos medidos, que concordam entre si
+    for (let i = 1; i < result.length - 1; i++) {
+      const currentObservation = result[i];
+      if (!isMeasured(currentObservation)) continue;
+      const previous = result[i - 1];
+      const next = result[i + 1];
+      if (!isMeasured(previous) || !isMeasured(next)) continue;
+
+      const jump = (a: BallObservation, b: BallObservation) =>
+        Math.hypot(a.position![0] - b.position![0], a.position![1] - b.position![1]);
+      if (jump(previous, currentObservation) > maxJump && jump(currentObservation, next) > maxJump && jump(previous, next) <= maxJump) {
+        result[i] = { ...currentObservation, position: null, confidence: 0, status: 'missing' };
+      }
+    }
+
+    // Interpolação das lacunas entre medições
+    let lastMeasured = -1;
+    for (let i = 0; i < result.length; i++) {
+      if (!isMeasured(result[i])) continue;
+
+      const gap = lastMeasured >= 0 ? result[i].timestamp - result[lastMeasured].timestamp : Infinity;
+      if (i - lastMeasured > 1 && gap <= this.maxGap) {
+        const anchors = this.collectAnchors(result, lastMeasured, i, isMeasured);
+        for (let k = lastMeasured + 1; k < i; k++) {
+          const t = result[k].timestamp;
+          result[k] = {
+            ...result[k],
+            position: [this.fit(anchors, t, 0), this.fit(anchors, t, 1)],
+            confidence: 0.5 * (1 - gap / (2 * this.maxGap)),
+            status: 'interpolated',
+          };
+        }
+      }
+      lastMeasured = i;
+    }
+
+    // Predições que não foram confirmadas por nenhuma medição posterior são descartadas
+    return result.map(observation =>
+      observation.status === 'predicted'
+        ? { ...observation, position: null, confidence: 0, status: 'missing' }
+        : observation
+    );
+  }
+
+  // Até dois pontos medidos de cada lado da lacuna
+  private collectAnchors(
+    observations: BallObservation[],
+    before: number,
+    after: number,
+    isMeasured: (o: BallObservation) => boolean
+  ): { t: number; position: Point2D }[] {
+    const anchors: { t: number; position: Point2D }[] = [];
+    const from = observations[before].timestamp;
+    const to = observations[after].timestamp;
+    for (let i = before, count = 0; i >= 0 && count < 2 && from - observations[i].timestamp <= this.maxGap; i--) {
+      if (isMeasured(observations[i])) {
+        anchors.unshift({ t: observations[i].timestamp, position: observations[i].position! });
+        count++;
+      }
+    }
+    for (let i = after, count = 0; i < observations.length && count < 2 && observations[i].timestamp - to <= this.maxGap; i++) {
+      if (isMeasured(observations[i])) {
+        anchors.push({ t: observations[i].timestamp, position: observations[i].position! });
+        count++;
+      }
+    }
+    return anchors;
+  }
+
+  // Ajuste por mínimos quadrados: linear em x, parabólico em y (trajetória balística)
+  private fit(anchors: { t: number; position: Point2D }[], t: number, axis: 0 | 1): number {
+    const degree = axis === 1 && anchors.length >= 3 ? 2 : 1;
+    const t0 = anchors[0].t;
+    const size = degree + 1;
+    const ata = Array(size).fill(null).map(() => Array(size).fill(0));
+    const atb = Array(size).fill(0);
+
+    for (const anchor of anchors) {
+      const powers = Array(size).fill(0).map((_, p) => Math.pow(anchor.t - t0, p));
+      for (let i = 0; i < size; i++) {
+        atb[i] += powers[i] * anchor.position[axis];
+        for (let j = 0; j < size; j++) ata[i][j] += powers[i] * powers[j];
+      }
+    }
+
+    const coefficients = solveLinearSystem(ata, atb);
+    if (!coefficients) {
+      // Fallback: interpolação linear entre as âncoras mais próximas
+      const before = [...anchors].reverse().find(anchor => anchor.t <= t) ?? anchors[0];
+      const after = anchors.find(anchor => anchor.t >= t) ?? anchors[anchors.length - 1];
+      const span = after.t - before.t || 1;
+      return before.position[axis] + ((after.position[axis] - before.position[axis]) * (t - before.t)) / span;
+    }
+    return coefficients.reduce((sum, c, p) => sum + c * Math.pow(t - t0, p), 0);
+  }
+}
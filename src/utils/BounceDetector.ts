@@ -0,0 +1,120 @@
+import {
+  CourtLineName,
+  HALF_DOUBLES_WIDTH,
+  HALF_LENGTH,
+  HALF_SINGLES_WIDTH,
+} from '@/data/courtModel';
+import { projectToCourt } from './CourtDetector';
+import { Point2D } from './homography';
+import { TennisAnalysis } from './VideoProcessor';
+
+export type LineCall = 'IN' | 'OUT' | 'TOO_CLOSE';
+
+export interface BounceEvent {
+  frame: number;
+  timestamp: number;
+  image: Point2D;              // posição do quique em pixels
+  court: Point2D;              // posição do quique na quadra, em metros
+  nearestLine: CourtLineName;
+  distanceToLine: number;      // metros; positivo dentro da quadra, negativo fora
+  verdict: LineCall;
+  confidence: number;
+}
+
+/**
+ * Detecta quiques na trilha da bola pela inversão da velocidade vertical na
+ * imagem (a bola desce até o chão e volta a subir) e confirma cada candidato
+ * projetando-o na quadra pela homografia. A marcação considera apenas os
+ * limites da quadra de simples ou duplas, sem o contexto de saque.
+ */
+export class BounceDetector {
+  private minDescent = 60;        // px/s mínimos de descida antes do quique
+  private minSecondsApart = 0.1;
+  private tooCloseTolerance = 0.1; // metros em que a marcação fica indefinida
+  private courtMargin = { length: 8, width: 5 };
+
+  constructor(private mode: 'singles' | 'doubles' = 'singles') {}
+
+  detect(analyses: TennisAnalysis[]): BounceEvent[] {
+    const samples = analyses.filter(analysis => analysis.ballPosition.position);
+    const bounces: BounceEvent[] = [];
+
+    for (let i = 1; i < samples.length - 1; i++) {
+      const previous = samples[i - 1];
+      const current = samples[i];
+      const next = samples[i + 1];
+      if (!current.court) continue;
+
+      const [, yPrevious] = previous.ballPosition.position!;
+      const [, y] = current.ballPosition.position!;
+      const [, yNext] = next.ballPosition.position!;
+      const descent = (y - yPrevious) / Math.max(1e-3, current.timestamp - previous.timestamp);
+      const ascent = (yNext - y) / Math.max(1e-3, next.timestamp - current.timestamp);
+
+      // Ponto mais baixo na imagem: descendo antes, subindo depois
+      if (descent < this.minDescent || ascent >= 0) continue;
+      if (this.isNearPlayer(current)) continue;
+
+      const image = current.ballPosition.position!;
+      const court = projectToCourt(current.court, image);
+      if (!this.isOnCourtArea(court)) continue;
+
+      const lastBounce = bounces[bounces.length - 1];
+      if (lastBounce && current.timestamp - lastBounce.timestamp < this.minSecondsApart) continue;
+
+      bounces.push({
+        frame: current.frame,
+        timestamp: current.timestamp,
+        image,
+        court,
+        ...this.callLine(court),
+        confidence: Math.min(previous.ballPosition.confidence, current.ballPosition.confidence, next.ballPosition.confidence),
+      });
+    }
+
+    return bounces;
+  }
+
+  callLine([x, y]: Point2D): Pick<BounceEvent, 'nearestLine' | 'distanceToLine' | 'verdict'> {
+    const halfWidth = this.mode === 'singles' ? HALF_SINGLES_WIDTH : HALF_DOUBLES_WIDTH;
+    const toBaseline = HALF_LENGTH - Math.abs(x);
+    const toSideline = halfWidth - Math.abs(y);
+
+    let nearestLine: CourtLineName;
+    let distanceToLine: number;
+    if (toBaseline < toSideline) {
+      nearestLine = x < 0 ? 'far-baseline' : 'near-baseline';
+      distanceToLine = toBaseline;
+    } else {
+      const side = y < 0 ? 'left' : 'right';
+      nearestLine = `${side}-${this.mode}-sideline` as CourtLineName;
+      distanceToLine = toSideline;
+    }
+
+    let verdict: LineCall;
+    if (Math.abs(distanceToLine) < this.tooCloseTolerance) {
+      verdict = 'TOO_CLOSE';
+    } else {
+      verdict = distanceToLine > 0 ? 'IN' : 'OUT';
+    }
+
+    return { nearestLine, distanceToLine, verdict };
+  }
+
+  // Mudanças de direção junto a um jogador são golpes, não quiques
+  private isNearPlayer(analysis: TennisAnalysis): boolean {
+    const [bx, by] = analysis.ballPosition.position!;
+    return analysis.players.some(({ bbox: [x1, y1, x2, y2] }) => {
+      const marginX = (x2 - x1) * 0.3;
+      const marginY = (y2 - y1) * 0.1;
+      return bx >= x1 - marginX && bx <= x2 + marginX && by >= y1 - marginY && by <= y2 + marginY;
+    });
+  }
+
+  private isOnCourtArea([x, y]: Point2D): boolean {
+    return (
+      Math.abs(x) <= HALF_LENGTH + this.courtMargin.length &&
+      Math.abs(y) <= HALF_DOUBLES_WIDTH + this.courtMargin.width
+    );
+  }
+}
@@ -0,0 +1,359 @@
+import {
+  COURT_CORNERS,
+  COURT_LINES,
+  CourtPoint,
+  HALF_DOUBLES_WIDTH,
+  HALF_LENGTH,
+  HALF_SINGLES_WIDTH,
+  SERVICE_LINE_X,
+  SIDELINE_POSITIONS,
+  TRANSVERSE_LINE_POSITIONS,
+} from '@/data/courtModel';
+import {
+  Homography,
+  Point2D,
+  applyHomography,
+  computeHomography,
+  invertHomography,
+  multiplyHomography,
+  scaleHomography,
+} from './homography';
+
+export interface CourtKeypoint {
+  name: string;
+  image: Point2D;
+  court: CourtPoint;
+}
+
+export interface CourtCalibration {
+  homography: Homography; // imagem (px) -> quadra (m)
+  inverse: Homography;    // quadra (m) -> imagem (px)
+  keypoints: CourtKeypoint[];
+  score: number;          // fração das linhas do modelo confirmadas na imagem
+  source: 'auto' | 'manual';
+  frame: number;
+}
+
+interface HoughLine {
+  theta: number;
+  rho: number;
+  votes: number;
+}
+
+// Interseções do modelo ITF usadas como pontos de referência
+const MODEL_KEYPOINTS: { name: string; court: CourtPoint }[] = [
+  { name: 'far-left-corner', court: [-HALF_LENGTH, -HALF_DOUBLES_WIDTH] },
+  { name: 'far-right-corner', court: [-HALF_LENGTH, HALF_DOUBLES_WIDTH] },
+  { name: 'near-right-corner', court: [HALF_LENGTH, HALF_DOUBLES_WIDTH] },
+  { name: 'near-left-corner', court: [HALF_LENGTH, -HALF_DOUBLES_WIDTH] },
+  { name: 'far-left-singles', court: [-HALF_LENGTH, -HALF_SINGLES_WIDTH] },
+  { name: 'far-right-singles', court: [-HALF_LENGTH, HALF_SINGLES_WIDTH] },
+  { name: 'near-right-singles', court: [HALF_LENGTH, HALF_SINGLES_WIDTH] },
+  { name: 'near-left-singles', court: [HALF_LENGTH, -HALF_SINGLES_WIDTH] },
+  { name: 'far-service-left', court: [-SERVICE_LINE_X, -HALF_SINGLES_WIDTH] },
+  { name: 'far-service-center', court: [-SERVICE_LINE_X, 0] },
+  { name: 'far-service-right', court: [-SERVICE_LINE_X, HALF_SINGLES_WIDTH] },
+  { name: 'near-service-left', court: [SERVICE_LINE_X, -HALF_SINGLES_WIDTH] },
+  { name: 'near-service-center', court: [SERVICE_LINE_X, 0] },
+  { name: 'near-service-right', court: [SERVICE_LINE_X, HALF_SINGLES_WIDTH] },
+];
+
+export const projectToCourt = (calibration: CourtCalibration, point: Point2D): Point2D =>
+  applyHomography(calibration.homography, point);
+
+export const projectToImage = (calibration: CourtCalibration, point: CourtPoint): Point2D =>
+  applyHomography(calibration.inverse, point);
+
+// Monta uma calibração a partir da homografia quadra -> imagem
+export const createCalibration = (
+  courtToImage: Homography,
+  score: number,
+  source: CourtCalibration['source'],
+  frame: number
+): CourtCalibration | null => {
+  const homography = invertHomography(courtToImage);
+  if (!homography) return null;
+
+  return {
+    homography,
+    inverse: courtToImage,
+    keypoints: MODEL_KEYPOINTS.map(({ name, court }) => ({
+      name,
+      court,
+      image: applyHomography(courtToImage, court),
+    })),
+    score,
+    source,
+    frame,
+  };
+};
+
+export class CourtDetector {
+  private workingWidth = 640;
+  private lineThreshold = 160;   // luminância mínima de uma linha branca
+  private lineContrast = 20;     // quanto a linha deve ser mais clara que o entorno
+  private lineHalfWidth = 3;     // distância (px) usada no teste de contraste
+  private minScore = 0.5;
+  private samplesPerLine = 40;
+
+  detect(image: ImageData, frame: number): CourtCalibration | null {
+    const scale = Math.min(1, this.workingWidth / image.width);
+    const width = Math.round(image.width * scale);
+    const height = Math.round(image.height * scale);
+
+    const mask = this.extractLineMask(image, width, height, scale);
+    const lines = this.houghLines(mask, width, height);
+
+    const transverse = lines.filter(line => this.isTransverse(line)).slice(0, 6);
+    const longitudinal = lines.filter(line => !this.isTransverse(line)).slice(0, 6);
+    if (transverse.length < 2 || longitudinal.length < 2) return null;
+
+    const dilated = this.dilate(mask, width, height);
+    const best = this.matchCourtModel(transverse, longitudinal, dilated, width, height);
+    if (!best || best.score < this.minScore) return null;
+
+    // Converter da resolução de trabalho para a resolução original do vídeo
+    const courtToImage = multiplyHomography(scaleHomography(1 / scale, 1 / scale), best.courtToImage);
+    return createCalibration(courtToImage, best.score, 'auto', frame);
+  }
+
+  // Quanto uma calibração existente ainda casa com as linhas deste frame (0 a 1)
+  verify(image: ImageData, calibration: CourtCalibration): number {
+    const scale = Math.min(1, this.workingWidth / image.width);
+    const width = Math.round(image.width * scale);
+    const height = Math.round(image.height * scale);
+
+    const mask = this.dilate(this.extractLineMask(image, width, height, scale), width, height);
+    const courtToImage = multiplyHomography(scaleHomography(scale, scale), calibration.inverse);
+    return this.scoreHomography(courtToImage, mask, width, height);
+  }
+
+  // Pixels claros, pouco saturados e mais brilhantes que os vizinhos (linhas finas)
+  private extractLineMask(image: ImageData, width: number, height: number, scale: number): Uint8Array {
+    const luminance = new Float32Array(width * height);
+    const chroma = new Float32Array(width * height);
+    const { data } = image;
+
+    for (let y = 0; y < height; y++) {
+      const sourceY = Math.min(image.height - 1, Math.floor(y / scale));
+      for (let x = 0; x < width; x++) {
+        const sourceX = Math.min(image.width - 1, Math.floor(x / scale));
+        const offset = (sourceY * image.width + sourceX) * 4;
+        const r = data[offset];
+        const g = data[offset + 1];
+        const b = data[offset + 2];
+        luminance[y * width + x] = 0.299 * r + 0.587 * g + 0.114 * b;
+        chroma[y * width + x] = Math.max(r, g, b) - Math.min(r, g, b);
+      }
+    }
+
+    const mask = new Uint8Array(width * height);
+    const t = this.lineHalfWidth;
+
+    for (let y = t; y < height - t; y++) {
+      for (let x = t; x < width - t; x++) {
+        const index = y * width + x;
+        const l = luminance[index];
+        if (l < this.lineThreshold || chroma[index] > 60) continue;
+
+        const horizontalPeak =
+          l - luminance[index - t] > this.lineContrast && l - luminance[index + t] > this.lineContrast;
+        const verticalPeak =
+          l - luminance[index - t * width] > this.lineContrast && l - luminance[index + t * width] > this.lineContrast;
+
+        if (horizontalPeak || verticalPeak) {
+          mask[index] = 1;
+        }
+      }
+    }
+
+    return mask;
+  }
+
+  private houghLines(mask: Uint8Array, width: number, height: number): HoughLine[] {
+    const thetaSteps = 180;
+    const maxRho = Math.ceil(Math.hypot(width, height));
+    const rhoSize = maxRho * 2 + 1;
+    const accumulator = new Int32Array(thetaSteps * rhoSize);
+
+    const cos = new Float32Array(thetaSteps);
+    const sin = new Float32Array(thetaSteps);
+    for (let t = 0; t < thetaSteps; t++) {
+      cos[t] = Math.cos((t * Math.PI) / thetaSteps);
+      sin[t] = Math.sin((t * Math.PI) / thetaSteps);
+    }
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (!mask[y * width + x]) continue;
+        for (let t = 0; t < thetaSteps; t++) {
+          const rho = Math.round(x * cos[t] + y * sin[t]) + maxRho;
+          accumulator[t * rhoSize + rho]++;
+        }
+      }
+    }
+
+    const minVotes = Math.min(width, height) * 0.15;
+    const candidates: HoughLine[] = [];
+    for (let t = 0; t < thetaSteps; t++) {
+      for (let r = 0; r < rhoSize; r++) {
+        const votes = accumulator[t * rhoSize + r];
+        if (votes >= minVotes) {
+          candidates.push({ theta: (t * Math.PI) / thetaSteps, rho: r - maxRho, votes });
+        }
+      }
+    }
+    candidates.sort((a, b) => b.votes - a.votes);
+
+    // Supressão de não-máximos: linhas quase idênticas contam uma vez só
+    const lines: HoughLine[] = [];
+    for (const candidate of candidates) {
+      const duplicate = lines.some(line => this.isSameLine(line, candidate));
+      if (!duplicate) lines.push(candidate);
+      if (lines.length >= 20) break;
+    }
+    return lines;
+  }
+
+  private isSameLine(a: HoughLine, b: HoughLine): boolean {
+    const thetaTolerance = (4 * Math.PI) / 180;
+    const rhoTolerance = 10;
+    const deltaTheta = Math.abs(a.theta - b.theta);
+    if (deltaTheta < thetaTolerance && Math.abs(a.rho - b.rho) < rhoTolerance) return true;
+    // (θ, ρ) e (θ - π, -ρ) representam a mesma reta
+    return Math.PI - deltaTheta < thetaTolerance && Math.abs(a.rho + b.rho) < rhoTolerance;
+  }
+
+  // Baselines e linhas de saque aparecem quase horizontais na imagem
+  private isTransverse(line: HoughLine): boolean {
+    const degrees = (line.theta * 180) / Math.PI;
+    return degrees > 65 && degrees < 115;
+  }
+
+  private intersect(a: HoughLine, b: HoughLine): Point2D | null {
+    const det = Math.cos(a.theta) * Math.sin(b.theta) - Math.sin(a.theta) * Math.cos(b.theta);
+    if (Math.abs(det) < 1e-6) return null;
+    return [
+      (a.rho * Math.sin(b.theta) - b.rho * Math.sin(a.theta)) / det,
+      (b.rho * Math.cos(a.theta) - a.rho * Math.cos(b.theta)) / det,
+    ];
+  }
+
+  private dilate(mask: Uint8Array, width: number, height: number): Uint8Array {
+    const result = new Uint8Array(mask.length);
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        if (!mask[y * width + x]) continue;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            result[(y + dy) * width + x + dx] = 1;
+          }
+        }
+      }
+    }
+    return result;
+  }
+
+  // Testa cada par de linhas transversais x par de laterais contra as combinações do modelo ITF
+  private matchCourtModel(
+    transverse: HoughLine[],
+    longitudinal: HoughLine[],
+    mask: Uint8Array,
+    width: number,
+    height: number
+  ): { courtToImage: Homography; score: number } | null {
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const yAtCenter = (line: HoughLine) => (line.rho - centerX * Math.cos(line.theta)) / Math.sin(line.theta);
+    const xAtCenter = (line: HoughLine) => (line.rho - centerY * Math.sin(line.theta)) / Math.cos(line.theta);
+
+    let best: { courtToImage: Homography; score: number } | null = null;
+
+    for (let i = 0; i < transverse.length; i++) {
+      for (let j = i + 1; j < transverse.length; j++) {
+        const [top, bottom] = [transverse[i], transverse[j]].sort((a, b) => yAtCenter(a) - yAtCenter(b));
+
+        for (let k = 0; k < longitudinal.length; k++) {
+          for (let l = k + 1; l < longitudinal.length; l++) {
+            const [left, right] = [longitudinal[k], longitudinal[l]].sort((a, b) => xAtCenter(a) - xAtCenter(b));
+
+            const corners = [
+              this.intersect(top, left),
+              this.intersect(top, right),
+              this.intersect(bottom, right),
+              this.intersect(bottom, left),
+            ];
+            if (corners.some(corner => !corner || !this.isNearImage(corner, width, height))) continue;
+
+            for (let a = 0; a < TRANSVERSE_LINE_POSITIONS.length; a++) {
+              for (let b = a + 1; b < TRANSVERSE_LINE_POSITIONS.length; b++) {
+                for (let c = 0; c < SIDELINE_POSITIONS.length; c++) {
+                  for (let d = c + 1; d < SIDELINE_POSITIONS.length; d++) {
+                    const far = TRANSVERSE_LINE_POSITIONS[a];
+                    const near = TRANSVERSE_LINE_POSITIONS[b];
+                    const leftY = SIDELINE_POSITIONS[c];
+                    const rightY = SIDELINE_POSITIONS[d];
+                    const courtPoints: Point2D[] = [[far, leftY], [far, rightY], [near, rightY], [near, leftY]];
+
+                    const courtToImage = computeHomography(courtPoints, corners as Point2D[]);
+                    if (!courtToImage) continue;
+
+                    const score = this.scoreHomography(courtToImage, mask, width, height);
+                    if (!best || score > best.score) {
+                      best = { courtToImage, score };
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private isNearImage([x, y]: Point2D, width: number, height: number): boolean {
+    return x > -width * 0.5 && x < width * 1.5 && y > -height * 0.5 && y < height * 1.5;
+  }
+
+  // Fração dos pontos amostrados das linhas projetadas que caem sobre pixels de linha
+  private scoreHomography(courtToImage: Homography, mask: Uint8Array, width: number, height: number): number {
+    // Descartar projeções degeneradas em que a quadra ocupa uma área mínima da imagem
+    const corners = COURT_CORNERS.map(corner => applyHomography(courtToImage, corner));
+    const area = Math.abs(corners.reduce((sum, [x1, y1], i) => {
+      const [x2, y2] = corners[(i + 1) % corners.length];
+      return sum + x1 * y2 - x2 * y1;
+    }, 0)) / 2;
+    if (!Number.isFinite(area) || area < width * height * 0.05) return 0;
+
+    let visible = 0;
+    let hits = 0;
+    let total = 0;
+
+    for (const line of COURT_LINES) {
+      for (let s = 0; s <= this.samplesPerLine; s++) {
+        const t = s / this.samplesPerLine;
+        const courtPoint: Point2D = [
+          line.start[0] + (line.end[0] - line.start[0]) * t,
+          line.start[1] + (line.end[1] - line.start[1]) * t,
+        ];
+        const [x, y] = applyHomography(courtToImage, courtPoint);
+        total++;
+        if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+
+        const px = Math.round(x);
+        const py = Math.round(y);
+        if (px < 0 || py < 0 || px >= width || py >= height) continue;
+
+        visible++;
+        if (mask[py * width + px]) hits++;
+      }
+    }
+
+    // Homografias que projetam a maior parte da quadra fora da imagem não são confiáveis
+    if (visible < total * 0.6) return 0;
+    return hits / visible;
+  }
+}
@@ -0,0 +1,186 @@
+import { HALF_DOUBLES_WIDTH, HALF_LENGTH } from '@/data/courtModel';
+import { BounceEvent } from './BounceDetector';
+import { HitEvent } from './HitDetector';
+import { Point2D } from './homography';
+import { Rally } from './PointSegmenter';
+import { ShotType } from './ShotClassifier';
+import { TennisAnalysis } from './VideoProcessor';
+
+export interface CourtGridSettings {
+  cellSize: number;         // metros por célula
+  bandwidth: number;        // desvio do kernel gaussiano, em metros
+  margin: [number, number]; // metros além das linhas de base e das laterais de duplas
+}
+
+export const DEFAULT_COURT_GRID: CourtGridSettings = { cellSize: 0.25, bandwidth: 0.5, margin: [5, 3] };
+
+/**
+ * Grade esparsa sobre a quadra: só as células com densidade relevante são
+ * guardadas, em ordem crescente de índice (linha * columns + coluna). Os
+ * valores são densidade por m², somando 1 sobre a grade inteira.
+ */
+export interface SparseCourtGrid {
+  cellSize: number;
+  columns: number;
+  rows: number;
+  origin: Point2D;  // canto da célula 0 na quadra (x e y mínimos), em metros
+  indices: number[];
+  values: number[];
+  samples: number;  // posições que formaram a grade
+}
+
+export interface CourtHeatmapGroup {
+  players: SparseCourtGrid; // pés dos jogadores
+  bounces: SparseCourtGrid; // quiques da bola
+}
+
+export interface SetHeatmaps extends CourtHeatmapGroup {
+  index: number;
+  start: number; // segundos
+  end: number;
+}
+
+export interface CourtHeatmaps {
+  byPlayer: Record<number, SparseCourtGrid>;
+  bounces: SparseCourtGrid;
+  sets: SetHeatmaps[];
+  // Posição de quem bateu no contato e quique que o golpe produziu
+  byShotType: Partial<Record<ShotType, CourtHeatmapGroup>>;
+}
+
+// Expande a grade esparsa para um vetor denso, linha a linha
+export const toDenseGrid = (grid: SparseCourtGrid): Float32Array => {
+  const dense = new Float32Array(grid.columns * grid.rows);
+  grid.indices.forEach((index, i) => {
+    dense[index] = grid.values[i];
+  });
+  return dense;
+};
+
+/**
+ * Mapas de calor no plano da quadra, em metros: independem do ângulo da
+ * câmera e podem ser comparados entre vídeos. Cada posição espalha um kernel
+ * gaussiano sobre as células vizinhas (estimativa de densidade por kernel).
+ * Os sets são separados pelas pausas longas entre pontos, já que o placar não
+ * é lido do vídeo.
+ */
+export class CourtHeatmapBuilder {
+  private setBreak = 100;    // segundos sem ponto que indicam intervalo de set (troca de lado dura até 90 s)
+  private minDensity = 1e-3; // fração do pico abaixo da qual a célula não é guardada
+
+  constructor(private settings: CourtGridSettings = DEFAULT_COURT_GRID) {}
+
+  build(analyses: TennisAnalysis[], rallies: Rally[], hits: HitEvent[], bounces: BounceEvent[]): CourtHeatmaps {
+    const feet: { trackId: number; timestamp: number; position: Point2D }[] = [];
+    for (const analysis of analyses) {
+      for (const player of analysis.players) {
+        if (player.courtPosition) {
+          feet.push({ trackId: player.trackId, timestamp: analysis.timestamp, position: player.courtPosition });
+        }
+      }
+    }
+
+    const byPlayer: Record<number, SparseCourtGrid> = {};
+    for (const trackId of new Set(feet.map(foot => foot.trackId))) {
+      byPlayer[trackId] = this.grid(feet.filter(foot => foot.trackId === trackId).map(foot => foot.position));
+    }
+
+    const lastTimestamp = analyses.length > 0 ? analyses[analyses.length - 1].timestamp : 0;
+    const sets = this.splitSets(rallies, lastTimestamp).map(span => {
+      const inSet = (timestamp: number) => timestamp >= span.start && timestamp < span.end;
+      return {
+        ...span,
+        players: this.grid(feet.filter(foot => inSet(foot.timestamp)).map(foot => foot.position)),
+        bounces: this.grid(bounces.filter(bounce => inSet(bounce.timestamp)).map(bounce => bounce.court)),
+      };
+    });
+
+    return {
+      byPlayer,
+      bounces: this.grid(bounces.map(bounce => bounce.court)),
+      sets,
+      byShotType: this.groupByShotType(hits, bounces),
+    };
+  }
+
+  // Um set termina na metade da primeira pausa longa entre dois pontos
+  private splitSets(rallies: Rally[], lastTimestamp: number): Omit<SetHeatmaps, 'players' | 'bounces'>[] {
+    const sorted = [...rallies].sort((a, b) => a.startTime - b.startTime);
+    const boundaries: number[] = [];
+    for (let i = 1; i < sorted.length; i++) {
+      const pause = sorted[i].startTime - sorted[i - 1].endTime;
+      if (pause > this.setBreak) boundaries.push(sorted[i - 1].endTime + pause / 2);
+    }
+
+    const starts = [0, ...boundaries];
+    return starts.map((start, index) => ({
+      index,
+      start,
+      end: index + 1 < starts.length ? starts[index + 1] : Math.max(lastTimestamp, start) + 1,
+    }));
+  }
+
+  // O quique de um golpe é o primeiro entre ele e o golpe seguinte
+  private groupByShotType(hits: HitEvent[], bounces: BounceEvent[]): Partial<Record<ShotType, CourtHeatmapGroup>> {
+    const sortedHits = [...hits].sort((a, b) => a.timestamp - b.timestamp);
+    const positions = new Map<ShotType, { players: Point2D[]; bounces: Point2D[] }>();
+
+    sortedHits.forEach((hit, index) => {
+      if (!hit.shotType) return;
+      const group = positions.get(hit.shotType) ?? { players: [], bounces: [] };
+      positions.set(hit.shotType, group);
+
+      if (hit.playerPosition) group.players.push(hit.playerPosition);
+      const nextHit = sortedHits[index + 1]?.timestamp ?? Infinity;
+      const bounce = bounces.find(candidate => candidate.timestamp > hit.timestamp && candidate.timestamp < nextHit);
+      if (bounce) group.bounces.push(bounce.court);
+    });
+
+    const result: Partial<Record<ShotType, CourtHeatmapGroup>> = {};
+    for (const [type, group] of positions) {
+      result[type] = { players: this.grid(group.players), bounces: this.grid(group.bounces) };
+    }
+    return result;
+  }
+
+  private grid(points: Point2D[]): SparseCourtGrid {
+    const { cellSize, bandwidth, margin } = this.settings;
+    const origin: Point2D = [-(HALF_LENGTH + margin[0]), -(HALF_DOUBLES_WIDTH + margin[1])];
+    const columns = Math.ceil((2 * (HALF_LENGTH + margin[0])) / cellSize);
+    const rows = Math.ceil((2 * (HALF_DOUBLES_WIDTH + margin[1])) / cellSize);
+
+    const density = new Map<number, number>();
+    const radius = Math.ceil((3 * bandwidth) / cellSize);
+    const norm = 1 / (2 * Math.PI * bandwidth * bandwidth * Math.max(1, points.length));
+
+    for (const [x, y] of points) {
+      const col = Math.floor((x - origin[0]) / cellSize);
+      const row = Math.floor((y - origin[1]) / cellSize);
+      for (let r = Math.max(0, row - radius); r <= Math.min(rows - 1, row + radius); r++) {
+        for (let c = Math.max(0, col - radius); c <= Math.min(columns - 1, col + radius); c++) {
+          // Distância até o centro da célula
+          const dx = origin[0] + (c + 0.5) * cellSize - x;
+          const dy = origin[1] + (r + 0.5) * cellSize - y;
+          const weight = Math.exp(-(dx * dx + dy * dy) / (2 * bandwidth * bandwidth)) * norm;
+          const index = r * columns + c;
+          density.set(index, (density.get(index) ?? 0) + weight);
+        }
+      }
+    }
+
+    const peak = Math.max(0, ...density.values());
+    const cells = [...density.entries()]
+      .filter(([, value]) => value >= peak * this.minDensity)
+      .sort(([a], [b]) => a - b);
+
+    return {
+      cellSize,
+      columns,
+      rows,
+      origin,
+      indices: cells.map(([index]) => index),
+      values: cells.map(([, value]) => value),
+      samples: points.length,
+    };
+  }
+}
@@ -0,0 +1,228 @@
+import { BlobReader, DemuxedVideo, demuxVideo } from './demux';
+import { measureFrameRate, snapFrameRate } from './frameSampler';
+
+/**
+ * Origem dos frames da análise. Os frames são pedidos em ordem crescente de
+ * índice; o chamador fica dono do frame devolvido e deve fechá-lo.
+ */
+export interface FrameSource {
+  readonly kind: 'webcodecs' | 'seek';
+  readonly width: number;
+  readonly height: number;
+  readonly frameRate: number;
+  readonly frameCount: number;
+  grab(sourceFrame: number): Promise<ImageBitmap | VideoFrame | null>;
+  close(): void;
+}
+
+/**
+ * Frames exatos via WebCodecs: as amostras do contêiner vão em sequência para
+ * o VideoDecoder e os frames saem em ordem de apresentação, na velocidade da
+ * decodificação. Frames não pedidos são fechados assim que saem.
+ */
+export class WebCodecsFrameSource implements FrameSource {
+  readonly kind = 'webcodecs';
+  readonly width: number;
+  readonly height: number;
+  readonly frameRate: number;
+  readonly frameCount: number;
+
+  private decoder: VideoDecoder;
+  private queue: VideoFrame[] = [];
+  private nextSample = 0;
+  private delivered = 0;
+  private flushed = false;
+  private error: Error | null = null;
+  private wake: (() => void) | null = null;
+  private maxDecodeQueue = 4;
+
+  static isSupported(): boolean {
+    return typeof VideoDecoder !== 'undefined' && typeof EncodedVideoChunk !== 'undefined';
+  }
+
+  static async open(blob: Blob): Promise<WebCodecsFrameSource> {
+    const video = await demuxVideo(blob);
+    const { supported } = await VideoDecoder.isConfigSupported(video.config);
+    if (!supported) throw new Error(`Codec ${video.config.codec} não suportado pelo VideoDecoder`);
+    return new WebCodecsFrameSource(video, new BlobReader(blob));
+  }
+
+  private constructor(private video: DemuxedVideo, private reader: BlobReader) {
+    this.width = video.width;
+    this.height = video.height;
+    this.frameCount = video.samples.length;
+    this.frameRate = WebCodecsFrameSource.frameRateOf(video);
+
+    this.decoder = new VideoDecoder({
+      output: frame => {
+        this.queue.push(frame);
+        this.notify();
+      },
+      error: error => {
+        this.error = error instanceof Error ? error : new Error(String(error));
+        this.notify();
+      },
+    });
+    this.decoder.configure(video.config);
+    this.decoder.addEventListener('dequeue', () => this.notify());
+  }
+
+  // Mediana dos intervalos entre tempos de apresentação
+  private static frameRateOf(video: DemuxedVideo): number {
+    const times = video.samples.map(sample => sample.timestamp).sort((a, b) => a - b);
+    const deltas = times.slice(1).map((time, index) => time - times[index]).filter(delta => delta > 0);
+    if (deltas.length === 0) return 30;
+    deltas.sort((a, b) => a - b);
+    return snapFrameRate(1e6 / deltas[Math.floor(deltas.length / 2)]);
+  }
+
+  async grab(sourceFrame: number): Promise<VideoFrame | null> {
+    for (;;) {
+      const frame = await this.nextFrame();
+      if (!frame) return null;
+      const index = this.delivered++;
+      if (index === sourceFrame) return frame;
+      frame.close();
+      if (index > sourceFrame) return null;
+    }
+  }
+
+  close() {
+    this.queue.forEach(frame => frame.close());
+    this.queue = [];
+    if (this.decoder.state !== 'closed') this.decoder.close();
+  }
+
+  private async nextFrame(): Promise<VideoFrame | null> {
+    while (this.queue.length === 0) {
+      if (this.error) throw this.error;
+
+      if (this.nextSample < this.video.samples.length) {
+        await this.decodeNext();
+      } else if (!this.flushed) {
+        this.flushed = true;
+        await this.decoder.flush();
+      } else {
+        return null;
+      }
+    }
+    return this.queue.shift()!;
+  }
+
+  private async decodeNext() {
+    const sample = this.video.samples[this.nextSample++];
+    const data = await this.reader.readCopy(sample.offset, sample.size);
+    this.decoder.decode(
+      new EncodedVideoChunk({
+        type: sample.keyframe ? 'key' : 'delta',
+        timestamp: sample.timestamp,
+        duration: sample.duration || undefined,
+        data,
+      })
+    );
+
+    // Não adianta encher a fila do decodificador: espera ele consumir ou produzir um frame
+    if (this.decoder.decodeQueueSize >= this.maxDecodeQueue) {
+      await new Promise<void>(resolve => {
+        this.wake = resolve;
+      });
+    }
+  }
+
+  private notify() {
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+}
+
+/**
+ * Alternativa sem WebCodecs: busca cada frame em um <video> próprio, fora da
+ * tela, e espera o evento seeked. Mais lento e sujeito à precisão da busca.
+ */
+export class SeekFrameSource implements FrameSource {
+  readonly kind = 'seek';
+  readonly width: number;
+  readonly height: number;
+  readonly frameCount: number;
+
+  static async open(src: string): Promise<SeekFrameSource> {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.crossOrigin = 'anonymous';
+
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error('Não foi possível abrir o vídeo para análise'));
+      video.src = src;
+    });
+
+    // Gravações do MediaRecorder e transmissões não informam a duração: sem ela não há fim para a análise
+    if (!Number.isFinite(video.duration) || video.duration <= 0) {
+      video.removeAttribute('src');
+      video.load();
+      throw new Error('O vídeo não informa a duração (gravação ou transmissão ao vivo); converta-o para MP4 antes de analisar');
+    }
+
+    return new SeekFrameSource(video, await measureFrameRate(video));
+  }
+
+  private constructor(private video: HTMLVideoElement, readonly frameRate: number) {
+    this.width = video.videoWidth;
+    this.height = video.videoHeight;
+    this.frameCount = Math.floor(video.duration * frameRate);
+  }
+
+  async grab(sourceFrame: number): Promise<ImageBitmap | VideoFrame | null> {
+    if (sourceFrame >= this.frameCount) return null;
+    // Meio frame à frente para não cair na fronteira e receber o frame anterior
+    const time = (sourceFrame + 0.5) / this.frameRate;
+    await this.seek(time);
+    // A duração do contêiner pode exceder os frames: a busca para no último e o vídeo acaba
+    if (this.video.ended || this.video.currentTime < time - 1 / this.frameRate) return null;
+
+    // VideoFrame evita uma cópia extra onde o WebCodecs existe
+    if (typeof VideoFrame !== 'undefined') {
+      return new VideoFrame(this.video, { timestamp: Math.round((sourceFrame / this.frameRate) * 1e6) });
+    }
+    return createImageBitmap(this.video);
+  }
+
+  close() {
+    this.video.removeAttribute('src');
+    this.video.load();
+  }
+
+  private seek(time: number): Promise<void> {
+    return new Promise(resolve => {
+      const onSeeked = () => {
+        this.video.removeEventListener('seeked', onSeeked);
+        resolve();
+      };
+      this.video.addEventListener('seeked', onSeeked);
+      this.video.currentTime = time;
+    });
+  }
+}
+
+// WebCodecs quando o navegador e o contêiner permitem; senão, a busca no <video>
+export const openFrameSource = async (src: string): Promise<FrameSource> => {
+  if (WebCodecsFrameSource.isSupported()) {
+    try {
+      const response = await fetch(src);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return await WebCodecsFrameSource.open(await response.blob());
+    } catch (error) {
+      console.warn('Decodificação via WebCodecs indisponível; usando busca no <video>:', error);
+    }
+  }
+  return SeekFrameSource.open(src);
+};
+
+// Taxa de quadros medida como na análise, para converter o tempo do player em índice de frame
+export const probeFrameRate = async (src: string): Promise<number> => {
+  const source = await SeekFrameSource.open(src);
+  source.close();
+  return source.frameRate;
+};
@@ -0,0 +1,169 @@
+import { BounceEvent } from './BounceDetector';
+import { Point2D } from './homography';
+import { ShotEvent } from './PointSegmenter';
+import { ShotType, SpinGuess } from './ShotClassifier';
+import { StrokeBiomechanics } from './StrokeBiomechanics';
+import { TennisAnalysis } from './VideoProcessor';
+
+export interface HitEvent extends ShotEvent {
+  trackId: number;
+  ballImage: Point2D;              // posição da bola no contato, em pixels
+  direction: Point2D | null;       // vetor unitário do jogador até o quique seguinte, na quadra
+  directionAngle: number | null;   // graus em relação ao eixo do comprimento da quadra
+  speed: number | null;            // velocidade média na quadra até o quique seguinte, em m/s
+  confidence: number;
+  shotType?: ShotType;             // preenchidos pelo ShotClassifier
+  spin?: SpinGuess;
+  successful?: boolean | null;
+  biomechanics?: StrokeBiomechanics | null; // preenchido quando há estimativa de pose
+}
+
+/**
+ * Detecta golpes onde a trajetória da bola sofre uma descontinuidade (mudança
+ * brusca de direção ou de velocidade) ao alcance da raquete de um jogador
+ * rastreado, e atribui o golpe à trilha desse jogador.
+ */
+export class HitDetector {
+  private minAngleChange = 45;  // graus
+  private minSpeedRatio = 1.8;  // aceleração da bola ao sair da raquete
+  private reach = { sides: 0.6, top: 0.25, bottom: 0.1 }; // alcance da raquete em fração da caixa
+  private minSecondsApart = 0.15; // golpes mais próximos que isso são o mesmo
+  private maxFlightSeconds = 3;  // quique mais distante que isso do golpe não é dele
+
+  detect(analyses: TennisAnalysis[], bounces: BounceEvent[] = []): HitEvent[] {
+    const samples = analyses.filter(analysis => analysis.ballPosition.position);
+    const bounceFrames = new Set(bounces.map(bounce => bounce.frame));
+    const candidates: { hit: HitEvent; strength: number }[] = [];
+
+    for (let i = 1; i < samples.length - 1; i++) {
+      const current = samples[i];
+      if (bounceFrames.has(current.frame)) continue;
+
+      const ball = current.ballPosition.position!;
+      const incoming = this.velocity(samples[i - 1], current);
+      const outgoing = this.velocity(current, samples[i + 1]);
+      const strength = this.discontinuity(incoming, outgoing);
+      if (strength <= 0) continue;
+
+      const hitter = this.nearestPlayerInReach(current, ball);
+      if (!hitter) continue;
+
+      candidates.push({
+        hit: {
+          frame: current.frame,
+          timestamp: current.timestamp,
+          trackId: hitter.trackId,
+          playerPosition: hitter.courtPosition,
+          ballImage: ball,
+          direction: null,
+          directionAngle: null,
+          speed: null,
+          confidence: Math.min(1, strength) * current.ballPosition.confidence,
+        },
+        strength,
+      });
+    }
+
+    // Supressão de não-máximos: um golpe por janela de tempo
+    const kept: typeof candidates = [];
+    for (const candidate of candidates) {
+      const last = kept[kept.length - 1];
+      if (last && candidate.hit.timestamp - last.hit.timestamp < this.minSecondsApart) {
+        if (candidate.strength > last.strength) kept[kept.length - 1] = candidate;
+        continue;
+      }
+      kept.push(candidate);
+    }
+
+    return kept.map(({ hit }, index) => ({
+      ...hit,
+      ...this.outgoingBall(hit, bounces, kept[index + 1]?.hit.timestamp ?? Infinity),
+    }));
+  }
+
+  // Em pixels por segundo: amostras podem estar a intervalos diferentes do vídeo
+  private velocity(from: TennisAnalysis, to: TennisAnalysis): Point2D {
+    const time = Math.max(1e-3, to.timestamp - from.timestamp);
+    const [x1, y1] = from.ballPosition.position!;
+    const [x2, y2] = to.ballPosition.position!;
+    return [(x2 - x1) / time, (y2 - y1) / time];
+  }
+
+  // > 0 quando há mudança de direção ou aceleração suficiente para ser um golpe
+  private discontinuity(incoming: Point2D, outgoing: Point2D): number {
+    const speedIn = Math.hypot(...incoming);
+    const speedOut = Math.hypot(...outgoing);
+    if (speedIn < 1e-3 || speedOut < 1e-3) return 0;
+
+    const cos = (incoming[0] * outgoing[0] + incoming[1] * outgoing[1]) / (speedIn * speedOut);
+    const angle = (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+    const ratio = speedOut / speedIn;
+
+    const angleScore = angle / this.minAngleChange;
+    const speedScore = ratio / this.minSpeedRatio;
+    const score = Math.max(angleScore, speedScore);
+    return score >= 1 ? score : 0;
+  }
+
+  private nearestPlayerInReach(analysis: TennisAnalysis, [bx, by]: Point2D) {
+    let best: TennisAnalysis['players'][number] | null = null;
+    let bestDistance = Infinity;
+
+    for (const player of analysis.players) {
+      const [x1, y1, x2, y2] = player.bbox;
+      const width = x2 - x1;
+      const height = y2 - y1;
+      const inReach =
+        bx >= x1 - width * this.reach.sides &&
+        bx <= x2 + width * this.reach.sides &&
+        by >= y1 - height * this.reach.top &&
+        by <= y2 + height * this.reach.bottom;
+      if (!inReach) continue;
+
+      const distance = Math.hypot(bx - (x1 + x2) / 2, by - (y1 + y2) / 2);
+      if (distance < bestDistance) {
+        best = player;
+        bestDistance = distance;
+      }
+    }
+
+    return best;
+  }
+
+  // Logo após o contato a bola está no ar e a homografia do chão não mede sua
+  // posição; direção e velocidade vão dos pés do jogador ao quique seguinte,
+  // desde que ele aconteça antes do próximo golpe
+  private outgoingBall(
+    hit: HitEvent,
+    bounces: BounceEvent[],
+    nextHitTime: number,
+  ): Pick<HitEvent, 'direction' | 'directionAngle' | 'speed'> {
+    const bounce = bounces.find(bounce => bounce.timestamp > hit.timestamp);
+    const time = bounce ? bounce.timestamp - hit.timestamp : 0;
+    if (!bounce || !hit.playerPosition || bounce.timestamp > nextHitTime || time > this.maxFlightSeconds) {
+      return { direction: null, directionAngle: null, speed: null };
+    }
+
+    const [x1, y1] = hit.playerPosition;
+    const [x2, y2] = bounce.court;
+    const distance = Math.hypot(x2 - x1, y2 - y1);
+    if (distance < 1e-3) {
+      return { direction: null, directionAngle: null, speed: null };
+    }
+
+    const direction: Point2D = [(x2 - x1) / distance, (y2 - y1) / distance];
+    return {
+      direction,
+      directionAngle: (Math.atan2(direction[1], Math.abs(direction[0])) * 180) / Math.PI,
+      speed: distance / time,
+    };
+  }
+}
+
+export const groupHitsByPlayer = (hits: HitEvent[]): Record<number, HitEvent[]> => {
+  const groups: Record<number, HitEvent[]> = {};
+  for (const hit of hits) {
+    (groups[hit.trackId] ??= []).push(hit);
+  }
+  return groups;
+};
@@ -0,0 +1,99 @@
+type Matrix = number[][];
+
+// O ruído dos filtros foi ajustado por quadro a 30 fps; o passo `dt` dos
+// modelos é o intervalo real entre as amostras medido nessa unidade
+export const REFERENCE_FRAME_RATE = 30;
+
+const identity = (n: number): Matrix =>
+  Array(n).fill(null).map((_, i) => Array(n).fill(0).map((__, j) => (i === j ? 1 : 0)));
+
+const multiply = (a: Matrix, b: Matrix): Matrix =>
+  a.map(row => b[0].map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0)));
+
+const transpose = (a: Matrix): Matrix => a[0].map((_, j) => a.map(row => row[j]));
+
+const add = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((value, j) => value + b[i][j]));
+
+const subtract = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((value, j) => value - b[i][j]));
+
+// Inversão por Gauss-Jordan (matrizes pequenas de covariância)
+const invert = (a: Matrix): Matrix => {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, ...identity(n)[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    const divisor = m[col][col] || 1e-12;
+    for (let k = 0; k < 2 * n; k++) m[col][k] /= divisor;
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = m[row][col];
+      for (let k = 0; k < 2 * n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  return m.map(row => row.slice(n));
+};
+
+export interface KalmanModel {
+  transition: Matrix;       // F
+  observation: Matrix;      // H
+  processNoise: Matrix;     // Q
+  measurementNoise: Matrix; // R
+  control?: number[];       // termo constante somado à predição (ex.: gravidade)
+}
+
+/**
+ * Filtro de Kalman linear genérico, usado tanto pelo rastreador de jogadores
+ * (velocidade constante da caixa) quanto pelo rastreador da bola.
+ */
+export class KalmanFilter {
+  state: number[];
+  covariance: Matrix;
+
+  constructor(private model: KalmanModel, initialState: number[], initialCovariance: number) {
+    this.state = [...initialState];
+    this.covariance = identity(initialState.length).map(row => row.map(value => value * initialCovariance));
+  }
+
+  // `step` substitui a transição do modelo quando o intervalo entre as medições varia
+  predict(step: Pick<KalmanModel, 'transition' | 'processNoise' | 'control'> = this.model): number[] {
+    const { transition, processNoise, control } = step;
+    const x = multiply(transition, this.state.map(value => [value])).map(row => row[0]);
+    this.state = control ? x.map((value, i) => value + control[i]) : x;
+    this.covariance = add(multiply(multiply(transition, this.covariance), transpose(transition)), processNoise);
+    return this.state;
+  }
+
+  // Distância de Mahalanobis ao quadrado da medição em relação à predição (gating)
+  mahalanobis(measurement: number[]): number {
+    const { observation, measurementNoise } = this.model;
+    const innovation = this.innovation(measurement);
+    const s = add(multiply(multiply(observation, this.covariance), transpose(observation)), measurementNoise);
+    const sInverse = invert(s);
+    const y = innovation.map(value => [value]);
+    return multiply(multiply(transpose(y), sInverse), y)[0][0];
+  }
+
+  update(measurement: number[]): number[] {
+    const { observation, measurementNoise } = this.model;
+    const y = this.innovation(measurement).map(value => [value]);
+    const s = add(multiply(multiply(observation, this.covariance), transpose(observation)), measurementNoise);
+    const gain = multiply(multiply(this.covariance, transpose(observation)), invert(s));
+
+    this.state = add(this.state.map(value => [value]), multiply(gain, y)).map(row => row[0]);
+    this.covariance = multiply(subtract(identity(this.state.length), multiply(gain, observation)), this.covariance);
+    return this.state;
+  }
+
+  private innovation(measurement: number[]): number[] {
+    const predicted = multiply(this.model.observation, this.state.map(value => [value])).map(row => row[0]);
+    return measurement.map((value, i) => value - predicted[i]);
+  }
+}
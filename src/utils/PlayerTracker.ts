@@ -0,0 +1,230 @@
+import { HALF_DOUBLES_WIDTH, HALF_LENGTH } from '@/data/courtModel';
+import { CourtCalibration, projectToCourt } from './CourtDetector';
+import { Point2D } from './homography';
+import { KalmanFilter, KalmanModel, REFERENCE_FRAME_RATE } from './KalmanFilter';
+import { solveAssignment } from './hungarian';
+import { DetectionResult } from './VideoProcessor';
+
+export type TrackRole = 'player' | 'other';
+
+export interface TrackedPlayer extends DetectionResult {
+  trackId: number;
+  role: TrackRole;
+  courtPosition: Point2D | null; // posição dos pés na quadra, em metros
+}
+
+interface Track {
+  id: number;
+  filter: KalmanFilter;
+  hits: number;
+  framesSinceUpdate: number;
+  confirmed: boolean;
+  courtEvidence: number; // média móvel da presença na zona de jogo
+  detection: DetectionResult;
+}
+
+// Modelo de velocidade constante para [cx, cy, w, h, vx, vy, vw, vh], com passo `dt`
+const createBoxModel = (dt = 1): KalmanModel => {
+  const transition = Array(8).fill(null).map((_, i) => Array(8).fill(0).map((__, j) => {
+    if (i === j) return 1;
+    if (j === i + 4) return dt;
+    return 0;
+  }));
+  const observation = Array(4).fill(null).map((_, i) => Array(8).fill(0).map((__, j) => (i === j ? 1 : 0)));
+  const processNoise = Array(8).fill(null).map((_, i) => Array(8).fill(0).map((__, j) => (i === j ? 25 * dt : 0)));
+  const measurementNoise = Array(4).fill(null).map((_, i) => Array(4).fill(0).map((__, j) => (i === j ? 16 : 0)));
+  return { transition, observation, processNoise, measurementNoise };
+};
+
+const boxToMeasurement = ([x1, y1, x2, y2]: DetectionResult['bbox']): number[] => [
+  (x1 + x2) / 2,
+  (y1 + y2) / 2,
+  x2 - x1,
+  y2 - y1,
+];
+
+const stateToBox = (state: number[]): DetectionResult['bbox'] => {
+  const [cx, cy, w, h] = state;
+  return [cx - w / 2, cy - h / 2, cx + w / 2, cy + h / 2];
+};
+
+export const iou = (a: DetectionResult['bbox'], b: DetectionResult['bbox']): number => {
+  const x1 = Math.max(a[0], b[0]);
+  const y1 = Math.max(a[1], b[1]);
+  const x2 = Math.min(a[2], b[2]);
+  const y2 = Math.min(a[3], b[3]);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = (a[2] - a[0]) * (a[3] - a[1]) + (b[2] - b[0]) * (b[3] - b[1]) - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+// Ponto de contato com o chão: centro da base da caixa
+export const footPoint = ([x1, , x2, y2]: DetectionResult['bbox']): Point2D => [(x1 + x2) / 2, y2];
+
+/**
+ * Rastreador multiobjeto no estilo ByteTrack: Kalman + atribuição húngara por IoU,
+ * com uma segunda associação das detecções de baixa confiança para recuperar
+ * jogadores parcialmente ocultos. Gandulas, árbitros e público são separados
+ * dos jogadores pela posição na quadra.
+ */
+export class PlayerTracker {
+  private tracks: Track[] = [];
+  private nextId = 1;
+  private lastTimestamp = 0; // amostra anterior, para o passo do filtro
+  private highScore = 0.5;
+  private lowScore = 0.1;
+  private newTrackScore = 0.6;
+  private minHits = 3;
+  private maxFramesLost = 30;
+  private courtMargin = { behindBaseline: 6, outsideSideline: 1.5 };
+
+  reset() {
+    this.tracks = [];
+    this.nextId = 1;
+    this.lastTimestamp = 0;
+  }
+
+  // Retomada de um checkpoint: as trilhas do último frame salvo voltam confirmadas e com os mesmos ids
+  restore(tracks: TrackedPlayer[], nextId: number, timestamp: number) {
+    this.tracks = tracks.map(player => ({
+      id: player.trackId,
+      filter: new KalmanFilter(createBoxModel(), [...boxToMeasurement(player.bbox), 0, 0, 0, 0], 100),
+      hits: this.minHits,
+      framesSinceUpdate: 0,
+      confirmed: true,
+      courtEvidence: player.role === 'player' ? 1 : 0.5,
+      detection: { bbox: player.bbox, score: player.score, label: player.label },
+    }));
+    this.nextId = nextId;
+    this.lastTimestamp = timestamp;
+  }
+
+  // `timestamp` em segundos: a amostragem adaptativa muda o intervalo entre as
+  // amostras, e a velocidade das caixas precisa valer para qualquer intervalo
+  update(
+    detections: DetectionResult[],
+    calibration: CourtCalibration | null,
+    timestamp: number
+  ): { players: TrackedPlayer[]; tracks: TrackedPlayer[] } {
+    const step = createBoxModel(Math.max(1e-3, (timestamp - this.lastTimestamp) * REFERENCE_FRAME_RATE));
+    this.lastTimestamp = timestamp;
+
+    for (const track of this.tracks) {
+      track.filter.predict(step);
+      track.framesSinceUpdate++;
+    }
+
+    const high = detections.filter(d => d.score >= this.highScore);
+    const low = detections.filter(d => d.score >= this.lowScore && d.score < this.highScore);
+
+    // Primeira associação: detecções confiáveis contra todas as trilhas
+    const unmatchedHigh = this.associate(this.tracks, high, 0.8);
+
+    // Segunda associação: detecções fracas contra trilhas ativas no frame anterior
+    const remaining = this.tracks.filter(track => track.framesSinceUpdate === 1);
+    this.associate(remaining, low, 0.5);
+
+    for (const detection of unmatchedHigh) {
+      if (detection.score >= this.newTrackScore) {
+        this.tracks.push(this.createTrack(detection));
+      }
+    }
+
+    this.tracks = this.tracks.filter(track =>
+      track.confirmed ? track.framesSinceUpdate <= this.maxFramesLost : track.framesSinceUpdate <= 1
+    );
+
+    const active = this.tracks.filter(track => track.confirmed && track.framesSinceUpdate === 0);
+    const tracked = active.map(track => this.toTrackedPlayer(track, calibration));
+    this.assignRoles(active, tracked, calibration);
+
+    return {
+      players: tracked.filter(track => track.role === 'player').sort((a, b) => a.trackId - b.trackId),
+      tracks: tracked,
+    };
+  }
+
+  // Retorna as detecções que ficaram sem trilha
+  private associate(tracks: Track[], detections: DetectionResult[], maxCost: number): DetectionResult[] {
+    if (tracks.length === 0 || detections.length === 0) return detections;
+
+    const cost = tracks.map(track => {
+      const predicted = stateToBox(track.filter.state);
+      return detections.map(detection => 1 - iou(predicted, detection.bbox));
+    });
+    const assignment = solveAssignment(cost, maxCost);
+    const matched = new Set<number>();
+
+    assignment.forEach((detectionIndex, trackIndex) => {
+      if (detectionIndex < 0) return;
+      const track = tracks[trackIndex];
+      const detection = detections[detectionIndex];
+      track.filter.update(boxToMeasurement(detection.bbox));
+      track.detection = detection;
+      track.hits++;
+      track.framesSinceUpdate = 0;
+      if (track.hits >= this.minHits) track.confirmed = true;
+      matched.add(detectionIndex);
+    });
+
+    return detections.filter((_, index) => !matched.has(index));
+  }
+
+  private createTrack(detection: DetectionResult): Track {
+    const measurement = boxToMeasurement(detection.bbox);
+    return {
+      id: this.nextId++,
+      filter: new KalmanFilter(createBoxModel(), [...measurement, 0, 0, 0, 0], 100),
+      hits: 1,
+      framesSinceUpdate: 0,
+      confirmed: false,
+      courtEvidence: 0.5,
+      detection,
+    };
+  }
+
+  private toTrackedPlayer(track: Track, calibration: CourtCalibration | null): TrackedPlayer {
+    const bbox = stateToBox(track.filter.state);
+    const courtPosition = calibration ? projectToCourt(calibration, footPoint(bbox)) : null;
+
+    if (courtPosition) {
+      const inPlayingZone =
+        Math.abs(courtPosition[0]) <= HALF_LENGTH + this.courtMargin.behindBaseline &&
+        Math.abs(courtPosition[1]) <= HALF_DOUBLES_WIDTH + this.courtMargin.outsideSideline;
+      track.courtEvidence = track.courtEvidence * 0.8 + (inPlayingZone ? 0.2 : 0);
+    }
+
+    return {
+      bbox,
+      score: track.detection.score,
+      label: track.detection.label,
+      trackId: track.id,
+      role: 'other',
+      courtPosition,
+    };
+  }
+
+  // Um jogador por lado da rede; sem calibração, as duas maiores pessoas em quadra
+  private assignRoles(active: Track[], tracked: TrackedPlayer[], calibration: CourtCalibration | null) {
+    if (calibration) {
+      for (const side of [-1, 1]) {
+        let best: number | null = null;
+        tracked.forEach((player, index) => {
+          if (!player.courtPosition || Math.sign(player.courtPosition[0] || 1) !== side) return;
+          if (active[index].courtEvidence < 0.5) return;
+          if (best === null || active[index].courtEvidence > active[best].courtEvidence) best = index;
+        });
+        if (best !== null) tracked[best].role = 'player';
+      }
+      return;
+    }
+
+    const height = (player: TrackedPlayer) => player.bbox[3] - player.bbox[1];
+    [...tracked]
+      .sort((a, b) => height(b) - height(a))
+      .slice(0, 2)
+      .forEach(player => {
+        player.role = 'player';
+      });
+  }
+}
@@ -0,0 +1,203 @@
+import { HALF_SINGLES_WIDTH, SERVICE_LINE_X } from '@/data/courtModel';
+import { BounceEvent } from './BounceDetector';
+import { HitEvent } from './HitDetector';
+import { Point2D } from './homography';
+import { TennisAnalysis } from './VideoProcessor';
+
+export type PointOutcome =
+  | 'winner'
+  | 'forced-error'
+  | 'unforced-error'
+  | 'ace'
+  | 'double-fault'
+  | 'fault'     // primeiro saque fora: não encerra o ponto
+  | 'unknown';
+
+// Golpe mínimo que a segmentação precisa conhecer
+export interface ShotEvent {
+  frame: number;
+  timestamp: number;
+  trackId: number | null;
+  playerPosition: Point2D | null; // posição do jogador na quadra, em metros
+}
+
+export interface Rally {
+  index: number;
+  startFrame: number;
+  endFrame: number;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  server: number | null;      // trackId do sacador
+  shots: HitEvent[];
+  bounces: BounceEvent[];
+  outcome: PointOutcome;
+  lastHitter: number | null;
+  pointWinner: number | null; // trackId de quem ganhou o ponto
+}
+
+/**
+ * Divide o vídeo em pontos a partir dos eventos da bola e dos jogadores:
+ * cada ponto começa no saque, termina no último quique e é separado do
+ * seguinte por um intervalo sem bola em jogo.
+ */
+export class PointSegmenter {
+  private deadBallGap = 3;        // segundos sem bola rastreada que encerram um ponto
+  private minRallyDuration = 0.5;
+  private forcedErrorDistance = 3; // metros percorridos pelo jogador até a bola
+  private forcedErrorSpeed = 25;   // m/s da bola recebida
+
+  segment(analyses: TennisAnalysis[], shots: HitEvent[], bounces: BounceEvent[]): Rally[] {
+    const rallies: Rally[] = [];
+
+    for (const [start, end] of this.findLiveSegments(analyses)) {
+      const startTime = analyses[start].timestamp;
+      const endTime = analyses[end].timestamp;
+      if (endTime - startTime < this.minRallyDuration) continue;
+
+      const rallyShots = shots.filter(shot => shot.timestamp >= startTime && shot.timestamp <= endTime);
+      if (rallyShots.length === 0) continue;
+
+      const rallyBounces = bounces.filter(bounce => bounce.timestamp >= startTime && bounce.timestamp <= endTime);
+      const serve = rallyShots[0];
+      const lastShot = rallyShots[rallyShots.length - 1];
+      const lastBounce = rallyBounces[rallyBounces.length - 1];
+
+      rallies.push({
+        index: rallies.length + 1,
+        startFrame: analyses[start].frame,
+        endFrame: lastBounce?.frame ?? analyses[end].frame,
+        startTime: serve.timestamp,
+        endTime: lastBounce?.timestamp ?? endTime,
+        duration: (lastBounce?.timestamp ?? endTime) - serve.timestamp,
+        server: serve.trackId,
+        shots: rallyShots,
+        bounces: rallyBounces,
+        outcome: 'unknown',
+        lastHitter: lastShot.trackId,
+        pointWinner: null,
+      });
+    }
+
+    this.attributeOutcomes(rallies);
+    return rallies;
+  }
+
+  // Intervalos contínuos com bola rastreada e quadra calibrada
+  private findLiveSegments(analyses: TennisAnalysis[]): [number, number][] {
+    const segments: [number, number][] = [];
+    let start = -1;
+    let lastLive = -1;
+
+    analyses.forEach((analysis, index) => {
+      const live = analysis.ballPosition.position !== null && analysis.court !== null;
+      if (!live) return;
+
+      if (start < 0) {
+        start = index;
+      } else if (analysis.timestamp - analyses[lastLive].timestamp > this.deadBallGap) {
+        segments.push([start, lastLive]);
+        start = index;
+      }
+      lastLive = index;
+    });
+
+    if (start >= 0) segments.push([start, lastLive]);
+    return segments;
+  }
+
+  private attributeOutcomes(rallies: Rally[]) {
+    rallies.forEach((rally, index) => {
+      const opponent = this.opponentOf(rally, rally.lastHitter, rallies);
+      const lastShot = rally.shots[rally.shots.length - 1];
+      const bouncesAfterLastShot = rally.bounces.filter(bounce => bounce.frame > lastShot.frame);
+      const firstBounce = bouncesAfterLastShot[0];
+
+      if (rally.shots.length === 1) {
+        // Só houve o saque: ace, ou falta se a bola não caiu na caixa de saque correta
+        if (firstBounce && this.isServeIn(lastShot, firstBounce)) {
+          rally.outcome = 'ace';
+          rally.pointWinner = rally.lastHitter;
+          return;
+        }
+        const previous = rallies[index - 1];
+        const isSecondServe =
+          previous && previous.outcome === 'fault' && previous.server === rally.server;
+        rally.outcome = isSecondServe ? 'double-fault' : 'fault';
+        rally.pointWinner = isSecondServe ? opponent : null;
+        return;
+      }
+
+      // A última bola quicou dentro e o adversário não devolveu: winner
+      if (firstBounce && firstBounce.verdict !== 'OUT' && this.crossedNet(lastShot, firstBounce)) {
+        rally.outcome = 'winner';
+        rally.pointWinner = rally.lastHitter;
+        return;
+      }
+
+      // Bola fora, na rede ou sem quique: erro de quem bateu por último
+      rally.outcome = this.isForcedError(rally) ? 'forced-error' : 'unforced-error';
+      rally.pointWinner = opponent;
+    });
+  }
+
+  private isServeIn(serve: ShotEvent, bounce: BounceEvent): boolean {
+    if (!serve.playerPosition) return bounce.verdict !== 'OUT';
+    const [serverX, serverY] = serve.playerPosition;
+    const [x, y] = bounce.court;
+    // Saque cruzado: lado oposto da rede e metade oposta da largura
+    return (
+      Math.sign(x) === -Math.sign(serverX) &&
+      Math.abs(x) <= SERVICE_LINE_X &&
+      (serverY === 0 || Math.sign(y) === -Math.sign(serverY)) &&
+      Math.abs(y) <= HALF_SINGLES_WIDTH
+    );
+  }
+
+  private crossedNet(shot: ShotEvent, bounce: BounceEvent): boolean {
+    if (!shot.playerPosition) return true;
+    return Math.sign(bounce.court[0]) !== Math.sign(shot.playerPosition[0]);
+  }
+
+  // Erro forçado: o jogador precisou correr muito ou recebeu uma bola muito rápida
+  private isForcedError(rally: Rally): boolean {
+    const shots = rally.shots;
+    if (shots.length < 2) return false;
+
+    const lastShot = shots[shots.length - 1];
+    const incoming = shots[shots.length - 2];
+    const previousOwnShot = [...shots.slice(0, -1)].reverse().find(shot => shot.trackId === lastShot.trackId);
+
+    if (previousOwnShot?.playerPosition && lastShot.playerPosition) {
+      const distance = Math.hypot(
+        lastShot.playerPosition[0] - previousOwnShot.playerPosition[0],
+        lastShot.playerPosition[1] - previousOwnShot.playerPosition[1]
+      );
+      if (distance > this.forcedErrorDistance) return true;
+    }
+
+    if (incoming.playerPosition && lastShot.playerPosition) {
+      const travel = Math.hypot(
+        lastShot.playerPosition[0] - incoming.playerPosition[0],
+        lastShot.playerPosition[1] - incoming.playerPosition[1]
+      );
+      const time = lastShot.timestamp - incoming.timestamp;
+      if (time > 0 && travel / time > this.forcedErrorSpeed) return true;
+    }
+
+    return false;
+  }
+
+  private opponentOf(rally: Rally, trackId: number | null, rallies: Rally[]): number | null {
+    if (trackId === null) return null;
+    const inRally = rally.shots.find(shot => shot.trackId !== null && shot.trackId !== trackId);
+    if (inRally) return inRally.trackId;
+    // Pontos de um golpe só: procurar o adversário nos pontos vizinhos
+    for (const other of rallies) {
+      const shot = other.shots.find(s => s.trackId !== null && s.trackId !== trackId);
+      if (shot) return shot.trackId;
+    }
+    return null;
+  }
+}
+
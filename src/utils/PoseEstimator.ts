@@ -0,0 +1,110 @@
+import {
+  PreTrainedModel,
+  RawImage,
+  VitPoseForPoseEstimation,
+  VitPoseImageProcessor,
+} from '@huggingface/transformers';
+import { Point2D } from './homography';
+import { TrackedPlayer } from './PlayerTracker';
+import { FrameCanvas } from './VideoProcessor';
+import { BackendCapabilities, BackendReport, loadWithFallback } from './inferenceBackend';
+
+// Ordem dos 17 pontos do COCO usada pelo ViTPose
+export const POSE_KEYPOINTS = [
+  'nose', 'left-eye', 'right-eye', 'left-ear', 'right-ear',
+  'left-shoulder', 'right-shoulder', 'left-elbow', 'right-elbow',
+  'left-wrist', 'right-wrist', 'left-hip', 'right-hip',
+  'left-knee', 'right-knee', 'left-ankle', 'right-ankle',
+] as const;
+
+export type PoseKeypointName = typeof POSE_KEYPOINTS[number];
+
+export interface PlayerPose {
+  trackId: number;
+  keypoints: Point2D[]; // em pixels do frame, na ordem de POSE_KEYPOINTS
+  scores: number[];
+}
+
+/**
+ * Estima a pose 2D de cada jogador rastreado com o ViTPose, rodando o modelo
+ * sobre o recorte da caixa de cada jogador.
+ */
+export class PoseEstimator {
+  private processor: VitPoseImageProcessor | null = null;
+  private model: PreTrainedModel | null = null;
+  private initialized = false;
+  private modelId: string | null = null;
+  private backendReport: BackendReport | null = null;
+  private cropPadding = 0.15; // margem ao redor da caixa, para não cortar raquete e braços
+
+  async initialize(capabilities: BackendCapabilities, modelId: string) {
+    if (this.initialized && this.modelId === modelId) return;
+
+    try {
+      console.log('Inicializando estimador de pose...');
+      this.initialized = false;
+      this.processor = (await VitPoseImageProcessor.from_pretrained(modelId)) as VitPoseImageProcessor;
+      const { model, report } = await loadWithFallback(
+        (device, dtype) => VitPoseForPoseEstimation.from_pretrained(modelId, { device, dtype }),
+        capabilities
+      );
+      this.model = model;
+      this.backendReport = report;
+      this.modelId = modelId;
+      this.initialized = true;
+      console.log(`Estimador de pose inicializado com sucesso (${report.backend}, ${report.dtype})`);
+    } catch (error) {
+      console.error('Erro ao inicializar estimador de pose:', error);
+      throw error;
+    }
+  }
+
+  getBackendReport(): BackendReport | null {
+    return this.backendReport;
+  }
+
+  async estimate(canvas: FrameCanvas, players: TrackedPlayer[], signal?: AbortSignal): Promise<PlayerPose[]> {
+    if (!this.initialized) {
+      throw new Error('Pose estimator not initialized');
+    }
+    if (players.length === 0) return [];
+
+    const frame = RawImage.fromCanvas(canvas);
+    const crops = players.map(player => this.cropBox(player.bbox, canvas.width, canvas.height));
+    const images = await Promise.all(crops.map(([x1, y1, x2, y2]) => frame.crop([x1, y1, x2 - 1, y2 - 1])));
+
+    const inputs = await this.processor(images);
+    signal?.throwIfAborted();
+    const { heatmaps } = await this.model(inputs);
+
+    // Cada recorte é uma imagem do lote com uma única caixa cobrindo o recorte inteiro
+    const boxes = crops.map(([x1, y1, x2, y2]) => [[0, 0, x2 - x1, y2 - y1] as [number, number, number, number]]);
+    const results = this.processor.post_process_pose_estimation(heatmaps, boxes);
+
+    return players.map((player, index) => {
+      const [x1, y1] = crops[index];
+      const [{ keypoints, scores }] = results[index];
+      return {
+        trackId: player.trackId,
+        keypoints: keypoints.map(([x, y]: Point2D) => [x + x1, y + y1] as Point2D),
+        scores,
+      };
+    });
+  }
+
+  private cropBox([x1, y1, x2, y2]: [number, number, number, number], width: number, height: number) {
+    const padX = (x2 - x1) * this.cropPadding;
+    const padY = (y2 - y1) * this.cropPadding;
+    return [
+      Math.max(0, Math.floor(x1 - padX)),
+      Math.max(0, Math.floor(y1 - padY)),
+      Math.min(width, Math.ceil(x2 + padX)),
+      Math.min(height, Math.ceil(y2 + padY)),
+    ] as [number, number, number, number];
+  }
+}
+
+export const keypoint = (pose: PlayerPose, name: PoseKeypointName, minScore = 0.3): Point2D | null => {
+  const index = POSE_KEYPOINTS.indexOf(name);
+  return pose.scores[index] >= minScore ? pose.keypoints[index] : null;
+};
@@ -0,0 +1,152 @@
+export type SceneType =
+  | 'play'      // câmera principal com a quadra calibrada à vista
+  | 'closeup'   // close de jogador, público, banco, outra câmera
+  | 'replay'    // tomadas entre duas vinhetas de replay
+  | 'graphics'; // telas de placar, vinhetas e outras artes
+
+export interface SceneInfo {
+  type: SceneType;
+  shot: number;   // índice da tomada, incrementado a cada troca de câmera
+  isCut: boolean; // primeira amostra de uma nova tomada
+}
+
+// Estado entre amostras guardado nos checkpoints: a contagem de tomadas e o replay continuam ao retomar
+export interface SceneClassifierState {
+  lastHistogram: Float32Array | null;
+  shot: number;
+  shotType: SceneType;
+  shotStart: number;
+  lastCheck: number;
+  replayStart: number | null;
+}
+
+/**
+ * Classifica cada amostra de uma transmissão. As trocas de tomada vêm da
+ * diferença entre histogramas de cor; cada tomada é classificada ao começar
+ * e reavaliada periodicamente: quadra calibrada e confirmada pelas linhas do
+ * frame é jogo, histograma concentrado em poucas cores é arte gráfica e o
+ * resto é close. Vinhetas curtas abrem e fecham replays, então as tomadas de
+ * quadra entre duas vinhetas viram replay.
+ */
+export class SceneClassifier {
+  private bitsPerChannel = 3;        // histograma RGB de 8x8x8 caixas
+  private cutThreshold = 0.45;       // 1 - interseção dos histogramas que indica troca de tomada
+  private graphicsConcentration = 0.6; // fração dos pixels nas 4 caixas mais cheias de uma arte gráfica
+  private recheckInterval = 1;       // segundos entre reavaliações da mesma tomada
+  private maxWipeDuration = 2;       // vinheta de replay mais longa, em segundos
+  private maxReplayDuration = 45;    // replay mais longo antes de voltar a considerar jogo
+
+  private lastHistogram: Float32Array | null = null;
+  private shot = -1;
+  private shotType: SceneType = 'play';
+  private shotStart = 0;
+  private lastCheck = 0;
+  private replayStart: number | null = null;
+
+  reset() {
+    this.lastHistogram = null;
+    this.shot = -1;
+    this.shotType = 'play';
+    this.shotStart = 0;
+    this.lastCheck = 0;
+    this.replayStart = null;
+  }
+
+  snapshot(): SceneClassifierState {
+    return {
+      lastHistogram: this.lastHistogram,
+      shot: this.shot,
+      shotType: this.shotType,
+      shotStart: this.shotStart,
+      lastCheck: this.lastCheck,
+      replayStart: this.replayStart,
+    };
+  }
+
+  restore(state: SceneClassifierState) {
+    this.lastHistogram = state.lastHistogram;
+    this.shot = state.shot;
+    this.shotType = state.shotType;
+    this.shotStart = state.shotStart;
+    this.lastCheck = state.lastCheck;
+    this.replayStart = state.replayStart;
+  }
+
+  // Compara com a amostra anterior; a primeira amostra do vídeo abre a primeira tomada
+  detectCut(image: ImageData): boolean {
+    const histogram = this.colorHistogram(image);
+    const previous = this.lastHistogram;
+    this.lastHistogram = histogram;
+    if (!previous) return false;
+
+    let intersection = 0;
+    for (let i = 0; i < histogram.length; i++) {
+      intersection += Math.min(histogram[i], previous[i]);
+    }
+    return 1 - intersection > this.cutThreshold;
+  }
+
+  classify(timestamp: number, isCut: boolean, courtVisible: (shot: number) => boolean): SceneInfo {
+    const newShot = isCut || this.shot < 0;
+    if (newShot) {
+      this.closeShot(timestamp);
+      this.shot++;
+      this.shotStart = timestamp;
+    }
+
+    if (newShot || timestamp - this.lastCheck >= this.recheckInterval) {
+      this.lastCheck = timestamp;
+      this.shotType = courtVisible(this.shot) ? 'play' : this.isGraphics() ? 'graphics' : 'closeup';
+    }
+
+    if (this.replayStart !== null && timestamp - this.replayStart > this.maxReplayDuration) {
+      this.replayStart = null;
+    }
+
+    const type = this.shotType === 'play' && this.replayStart !== null ? 'replay' : this.shotType;
+    return { type, shot: this.shot, isCut: newShot };
+  }
+
+  // Uma vinheta curta alterna entre replay e ao vivo; uma arte longa encerra qualquer replay
+  private closeShot(timestamp: number) {
+    if (this.shot < 0 || this.shotType !== 'graphics') return;
+    const duration = timestamp - this.shotStart;
+    if (duration <= this.maxWipeDuration) {
+      this.replayStart = this.replayStart === null ? timestamp : null;
+    } else {
+      this.replayStart = null;
+    }
+  }
+
+  private isGraphics(): boolean {
+    if (!this.lastHistogram) return false;
+    const top = [...this.lastHistogram].sort((a, b) => b - a).slice(0, 4);
+    return top.reduce((sum, value) => sum + value, 0) >= this.graphicsConcentration;
+  }
+
+  // Histograma normalizado sobre uma amostragem esparsa dos pixels
+  private colorHistogram(image: ImageData): Float32Array {
+    const bits = this.bitsPerChannel;
+    const shift = 8 - bits;
+    const histogram = new Float32Array(1 << (bits * 3));
+    const step = Math.max(1, Math.floor(image.width / 160));
+    let count = 0;
+
+    for (let y = 0; y < image.height; y += step) {
+      for (let x = 0; x < image.width; x += step) {
+        const offset = (y * image.width + x) * 4;
+        const bin =
+          ((image.data[offset] >> shift) << (bits * 2)) |
+          ((image.data[offset + 1] >> shift) << bits) |
+          (image.data[offset + 2] >> shift);
+        histogram[bin]++;
+        count++;
+      }
+    }
+
+    for (let i = 0; i < histogram.length; i++) {
+      histogram[i] /= Math.max(1, count);
+    }
+    return histogram;
+  }
+}
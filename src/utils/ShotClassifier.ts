@@ -0,0 +1,196 @@
+import { SERVICE_LINE_X } from '@/data/courtModel';
+import { BounceEvent } from './BounceDetector';
+import { HitEvent } from './HitDetector';
+import { Rally } from './PointSegmenter';
+import { TennisAnalysis } from './VideoProcessor';
+
+export type ShotType = 'serve' | 'forehand' | 'backhand' | 'volley' | 'smash' | 'lob' | 'drop';
+export type SpinGuess = 'topspin' | 'slice' | 'flat' | 'unknown';
+export type Handedness = 'right' | 'left';
+
+export const SHOT_TYPES: ShotType[] = ['serve', 'forehand', 'backhand', 'volley', 'smash', 'lob', 'drop'];
+
+export interface ShotClassification {
+  shotType: ShotType;
+  spin: SpinGuess;
+  successful: boolean | null; // null quando o vídeo não permite saber
+}
+
+export interface ShotTypeStats {
+  count: number;
+  successful: number;
+  successRate: number | null;
+}
+
+/**
+ * Classifica cada golpe pelo evento de contato, pela posição da bola em
+ * relação à caixa do jogador, pela posição na quadra e pelo formato da
+ * trajetória até o próximo quique. O efeito é uma estimativa.
+ */
+export class ShotClassifier {
+  private netZone = SERVICE_LINE_X - 1;     // metros da rede em que o golpe sem quique é voleio
+  private dropZone = 4;                     // quique a até 4 m da rede
+  private dropMaxSpeed = 15;                // m/s
+  private lobMinArc = 1.5;                  // altura do arco em alturas do jogador
+  private handedness: Record<number, Handedness> = {};
+
+  setHandedness(trackId: number, handedness: Handedness) {
+    this.handedness[trackId] = handedness;
+  }
+
+  classify(
+    analyses: TennisAnalysis[],
+    rallies: Rally[],
+    bounces: BounceEvent[]
+  ): Map<HitEvent, ShotClassification> {
+    const classifications = new Map<HitEvent, ShotClassification>();
+
+    for (const rally of rallies) {
+      rally.shots.forEach((hit, index) => {
+        const previous = rally.shots[index - 1];
+        const next = rally.shots[index + 1];
+        const nextBounce = bounces.find(bounce =>
+          bounce.frame > hit.frame && (!next || bounce.frame < next.frame)
+        );
+        const bouncedBeforeHit = previous
+          ? bounces.some(bounce => bounce.frame > previous.frame && bounce.frame < hit.frame)
+          : true;
+
+        const contact = analyses.find(analysis => analysis.frame === hit.frame);
+        const player = contact?.players.find(p => p.trackId === hit.trackId);
+        const arc = this.arcHeight(analyses, hit, nextBounce, player?.bbox);
+
+        const shotType = this.shotType(index, hit, player?.bbox, bouncedBeforeHit, nextBounce, arc);
+        classifications.set(hit, {
+          shotType,
+          spin: this.spin(shotType, hit, arc),
+          successful: this.wasSuccessful(rally, index, nextBounce),
+        });
+      });
+    }
+
+    return classifications;
+  }
+
+  private shotType(
+    index: number,
+    hit: HitEvent,
+    bbox: [number, number, number, number] | undefined,
+    bouncedBeforeHit: boolean,
+    nextBounce: BounceEvent | undefined,
+    arc: number | null
+  ): ShotType {
+    const aboveHead = bbox ? hit.ballImage[1] < bbox[1] + (bbox[3] - bbox[1]) * 0.05 : false;
+    if (index === 0) return 'serve';
+    if (aboveHead) return 'smash';
+
+    const distanceToNet = hit.playerPosition ? Math.abs(hit.playerPosition[0]) : null;
+    if (!bouncedBeforeHit && distanceToNet !== null && distanceToNet < this.netZone) return 'volley';
+
+    if (arc !== null && arc > this.lobMinArc && nextBounce && Math.abs(nextBounce.court[0]) > SERVICE_LINE_X) {
+      return 'lob';
+    }
+    if (
+      nextBounce &&
+      Math.abs(nextBounce.court[0]) < this.dropZone &&
+      (hit.speed === null || hit.speed < this.dropMaxSpeed)
+    ) {
+      return 'drop';
+    }
+
+    return this.forehandOrBackhand(hit, bbox);
+  }
+
+  // O lado da bola em relação ao corpo define forehand/backhand; o jogador do fundo
+  // está de frente para a câmera, então esquerda e direita da imagem se invertem
+  private forehandOrBackhand(hit: HitEvent, bbox: [number, number, number, number] | undefined): ShotType {
+    if (!bbox) return 'forehand';
+    const centerX = (bbox[0] + bbox[2]) / 2;
+    const ballOnImageRight = hit.ballImage[0] > centerX;
+    const facingCamera = hit.playerPosition ? hit.playerPosition[0] < 0 : false;
+    const onPlayerRight = facingCamera ? !ballOnImageRight : ballOnImageRight;
+    const rightHanded = (this.handedness[hit.trackId] ?? 'right') === 'right';
+    return onPlayerRight === rightHanded ? 'forehand' : 'backhand';
+  }
+
+  // Quanto a bola sobe acima do ponto de contato até o quique, em alturas do jogador
+  private arcHeight(
+    analyses: TennisAnalysis[],
+    hit: HitEvent,
+    nextBounce: BounceEvent | undefined,
+    bbox: [number, number, number, number] | undefined
+  ): number | null {
+    if (!bbox || !nextBounce) return null;
+    const playerHeight = bbox[3] - bbox[1];
+    if (playerHeight <= 0) return null;
+
+    let highest = hit.ballImage[1];
+    for (const analysis of analyses) {
+      if (analysis.frame <= hit.frame || analysis.frame >= nextBounce.frame) continue;
+      const position = analysis.ballPosition.position;
+      if (position) highest = Math.min(highest, position[1]);
+    }
+    return (hit.ballImage[1] - highest) / playerHeight;
+  }
+
+  private spin(shotType: ShotType, hit: HitEvent, arc: number | null): SpinGuess {
+    const speed = hit.speed;
+    switch (shotType) {
+      case 'serve':
+      case 'smash':
+        return speed === null ? 'unknown' : speed > 40 ? 'flat' : 'topspin';
+      case 'volley':
+      case 'drop':
+        return 'slice';
+      case 'lob':
+        return speed !== null && speed > 15 ? 'topspin' : 'slice';
+      default:
+        if (arc === null) return 'unknown';
+        if (arc > 0.8) return 'topspin';
+        if (arc < 0.3 && speed !== null && speed < 20) return 'slice';
+        return 'flat';
+    }
+  }
+
+  // Sucesso: a bola caiu dentro ou foi devolvida; falha: o golpe encerrou o ponto com erro
+  private wasSuccessful(rally: Rally, index: number, nextBounce: BounceEvent | undefined): boolean | null {
+    const isLast = index === rally.shots.length - 1;
+    if (!isLast) return true;
+    if (rally.outcome === 'winner' || rally.outcome === 'ace') return true;
+    if (['forced-error', 'unforced-error', 'double-fault', 'fault'].includes(rally.outcome)) return false;
+    if (nextBounce) return nextBounce.verdict !== 'OUT';
+    return null;
+  }
+}
+
+// Contagem e aproveitamento por jogador e por tipo de golpe
+export const summarizeShotTypes = (hits: HitEvent[]): Record<number, Record<ShotType, ShotTypeStats>> => {
+  const summary: Record<number, Record<ShotType, ShotTypeStats>> = {};
+  const decided = new Map<ShotTypeStats, number>();
+
+  for (const hit of hits) {
+    if (!hit.shotType) continue;
+    if (!summary[hit.trackId]) {
+      summary[hit.trackId] = Object.fromEntries(
+        SHOT_TYPES.map(type => [type, { count: 0, successful: 0, successRate: null }])
+      ) as Record<ShotType, ShotTypeStats>;
+    }
+
+    const stats = summary[hit.trackId][hit.shotType];
+    stats.count++;
+    if (hit.successful !== null && hit.successful !== undefined) {
+      decided.set(stats, (decided.get(stats) ?? 0) + 1);
+      if (hit.successful) stats.successful++;
+    }
+  }
+
+  // Aproveitamento calculado só sobre os golpes com desfecho conhecido
+  for (const byType of Object.values(summary)) {
+    for (const stats of Object.values(byType)) {
+      const known = decided.get(stats) ?? 0;
+      stats.successRate = known > 0 ? (stats.successful / known) * 100 : null;
+    }
+  }
+
+  return summary;
+};
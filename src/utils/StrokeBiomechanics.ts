@@ -0,0 +1,109 @@
+import { HitEvent } from './HitDetector';
+import { Point2D } from './homography';
+import { PlayerPose, keypoint } from './PoseEstimator';
+import { TennisAnalysis } from './VideoProcessor';
+
+export interface StrokeBiomechanics {
+  kneeBend: number | null;          // graus de flexão do joelho mais dobrado (0 = perna estendida)
+  shoulderRotation: number | null;  // graus entre a linha dos ombros e a dos quadris, no plano da imagem
+  contactHeight: number | null;     // altura do contato em fração da altura do jogador (0 = pés, 1 = cabeça)
+  armExtension: number | null;      // ângulo do cotovelo do braço que bate (180 = braço estendido)
+  hittingArm: 'left' | 'right' | null;
+}
+
+// Ângulo em graus no vértice b formado pelos segmentos b→a e b→c
+const jointAngle = (a: Point2D, b: Point2D, c: Point2D): number => {
+  const v1 = [a[0] - b[0], a[1] - b[1]];
+  const v2 = [c[0] - b[0], c[1] - b[1]];
+  const norm = Math.hypot(v1[0], v1[1]) * Math.hypot(v2[0], v2[1]);
+  if (norm < 1e-6) return 180;
+  const cos = (v1[0] * v2[0] + v1[1] * v2[1]) / norm;
+  return (Math.acos(Math.max(-1, Math.min(1, cos))) * 180) / Math.PI;
+};
+
+const lineAngle = (from: Point2D, to: Point2D) => Math.atan2(to[1] - from[1], to[0] - from[0]);
+
+/**
+ * Mede a mecânica de cada golpe a partir da pose do jogador no frame de
+ * contato. As medidas são feitas na imagem 2D, então ângulos fora do plano da
+ * câmera aparecem encurtados.
+ */
+export class BiomechanicsAnalyzer {
+  private maxFrameDistance = 2; // frames amostrados de tolerância em torno do contato
+
+  measure(analyses: TennisAnalysis[], hits: HitEvent[]): Map<HitEvent, StrokeBiomechanics> {
+    const measurements = new Map<HitEvent, StrokeBiomechanics>();
+
+    for (const hit of hits) {
+      const pose = this.poseAtContact(analyses, hit);
+      if (pose) measurements.set(hit, this.measurePose(pose, hit.ballImage));
+    }
+
+    return measurements;
+  }
+
+  private poseAtContact(analyses: TennisAnalysis[], hit: HitEvent): PlayerPose | null {
+    const index = analyses.findIndex(analysis => analysis.frame === hit.frame);
+    if (index < 0) return null;
+
+    // O frame do contato pode ter ficado sem pose; usa o vizinho mais próximo
+    for (let offset = 0; offset <= this.maxFrameDistance; offset++) {
+      for (const candidate of [analyses[index - offset], analyses[index + offset]]) {
+        const pose = candidate?.poses.find(p => p.trackId === hit.trackId);
+        if (pose) return pose;
+      }
+    }
+    return null;
+  }
+
+  private measurePose(pose: PlayerPose, ball: Point2D): StrokeBiomechanics {
+    const point = (name: Parameters<typeof keypoint>[1]) => keypoint(pose, name);
+
+    const knees = (['left', 'right'] as const)
+      .map(side => {
+        const hip = point(`${side}-hip`);
+        const knee = point(`${side}-knee`);
+        const ankle = point(`${side}-ankle`);
+        return hip && knee && ankle ? 180 - jointAngle(hip, knee, ankle) : null;
+      })
+      .filter((bend): bend is number => bend !== null);
+    const kneeBend = knees.length > 0 ? Math.max(...knees) : null;
+
+    const leftShoulder = point('left-shoulder');
+    const rightShoulder = point('right-shoulder');
+    const leftHip = point('left-hip');
+    const rightHip = point('right-hip');
+    let shoulderRotation: number | null = null;
+    if (leftShoulder && rightShoulder && leftHip && rightHip) {
+      let difference = lineAngle(leftShoulder, rightShoulder) - lineAngle(leftHip, rightHip);
+      difference = Math.atan2(Math.sin(difference), Math.cos(difference));
+      shoulderRotation = Math.abs((difference * 180) / Math.PI);
+    }
+
+    const head = point('nose');
+    const feet = [point('left-ankle'), point('right-ankle')].filter((p): p is Point2D => p !== null);
+    let contactHeight: number | null = null;
+    if (head && feet.length > 0) {
+      const ground = Math.max(...feet.map(p => p[1]));
+      const height = ground - head[1];
+      if (height > 0) contactHeight = (ground - ball[1]) / height;
+    }
+
+    // O braço que bate é o do pulso mais próximo da bola no contato
+    const wrists = (['left', 'right'] as const)
+      .map(side => ({ side, wrist: point(`${side}-wrist`) }))
+      .filter((entry): entry is { side: 'left' | 'right'; wrist: Point2D } => entry.wrist !== null)
+      .sort((a, b) =>
+        Math.hypot(a.wrist[0] - ball[0], a.wrist[1] - ball[1]) - Math.hypot(b.wrist[0] - ball[0], b.wrist[1] - ball[1])
+      );
+    const hittingArm = wrists[0]?.side ?? null;
+    let armExtension: number | null = null;
+    if (hittingArm) {
+      const shoulder = point(`${hittingArm}-shoulder`);
+      const elbow = point(`${hittingArm}-elbow`);
+      if (shoulder && elbow) armExtension = jointAngle(shoulder, elbow, wrists[0].wrist);
+    }
+
+    return { kneeBend, shoulderRotation, contactHeight, armExtension, hittingArm };
+  }
+}
@@ -1,8 +1,30 @@
-import { pipeline, env } from '@huggingface/transformers';
+import { pipeline } from '@huggingface/transformers';
+import { BallObservation, BallTracker, BallTrackerState } from './BallTracker';
+import { BounceDetector, BounceEvent } from './BounceDetector';
+import { CourtCalibration, CourtDetector } from './CourtDetector';
+import { Point2D } from './homography';
+import { PlayerTracker, TrackRole, TrackedPlayer, footPoint } from './PlayerTracker';
+import { PointSegmenter, Rally } from './PointSegmenter';
+import { HitDetector, HitEvent } from './HitDetector';
+import { ShotClassifier } from './ShotClassifier';
+import { PlayerPose, PoseEstimator } from './PoseEstimator';
+import { BiomechanicsAnalyzer } from './StrokeBiomechanics';
+import { SceneClassifier, SceneClassifierState, SceneType } from './SceneClassifier';
+import { HeatmapSeries } from './heatmap';
+import { CourtHeatmapBuilder, CourtHeatmaps } from './CourtHeatmap';
+import { isAbortError } from './abort';
+import { BackendCapabilities, BackendReport, detectCapabilities, loadWithFallback } from './inferenceBackend';
+import {
+  DEFAULT_MODEL_SETTINGS,
+  DETECTOR_MODELS,
+  ModelSettings,
+  POSE_MODEL,
+  configureModelLoading,
+  modelIdFor,
+} from './modelRegistry';
 
-// Configure transformers.js
-env.allowLocalModels = false;
-env.useBrowserCache = true;
+// Canvas do frame: HTMLCanvasElement na thread principal, OffscreenCanvas no worker
+export type FrameCanvas = HTMLCanvasElement | OffscreenCanvas;
 
 export interface DetectionResult {
   bbox: [number, number, number, number];
@@ -11,57 +33,149 @@ export interface DetectionResult {
 }
 
 export interface TennisAnalysis {
-  frame: number;
+  frame: number;            // índice da amostra analisada
+  sourceFrame: number;      // índice do frame no vídeo original
   timestamp: number;
-  players: DetectionResult[];
-  ball: DetectionResult | null;
-  court: DetectionResult | null;
+  scene: SceneType;         // só 'play' passa pelos rastreadores; o resto vem vazio
+  shot: number;             // tomada (trecho entre trocas de câmera) a que o frame pertence
+  sceneMotion: number;      // variação média de luminância por frame desde a amostra anterior
+  players: TrackedPlayer[]; // apenas as trilhas classificadas como jogadores
+  tracks: TrackedPlayer[];  // todas as pessoas rastreadas (inclui gandulas, árbitros, público)
+  ball: DetectionResult | null;          // melhor detecção bruta do YOLO no frame
+  ballPosition: BallObservation;         // posição contínua vinda do rastreador da bola
+  court: CourtCalibration | null;
+  poses: PlayerPose[];                   // vazio quando a estimativa de pose está desligada
+}
+
+// Estado dos rastreadores que não se reconstrói a partir das análises salvas
+export interface TrackingState {
+  scene: SceneClassifierState;
+  ball: BallTrackerState;
+  calibration: CourtCalibration | null;
+  previousSignature: Float32Array | null;
+  previousSourceFrame: number;
+}
+
+export interface TrackTimeline {
+  trackId: number;
+  role: TrackRole;
+  points: {
+    frame: number;
+    timestamp: number;
+    bbox: [number, number, number, number];
+    courtPosition: Point2D | null;
+  }[];
 }
 
 export class VideoProcessor {
   private objectDetector: any = null;
   private initialized = false;
+  private courtDetector = new CourtDetector();
+  private playerTracker = new PlayerTracker();
+  private ballTracker = new BallTracker();
+  private bounceDetector = new BounceDetector();
+  private hitDetector = new HitDetector();
+  private pointSegmenter = new PointSegmenter();
+  private shotClassifier = new ShotClassifier();
+  private poseEstimator = new PoseEstimator();
+  private biomechanicsAnalyzer = new BiomechanicsAnalyzer();
+  private sceneClassifier = new SceneClassifier();
+  private courtHeatmapBuilder = new CourtHeatmapBuilder();
+  private poseEnabled = false;
+  private capabilities: BackendCapabilities | null = null;
+  private backendReport: BackendReport | null = null;
+  private modelSettings: ModelSettings = DEFAULT_MODEL_SETTINGS;
+  private calibration: CourtCalibration | null = null;
+  private manualCalibration: CourtCalibration | null = null;
+  private previousSignature: Float32Array | null = null;
+  private previousSourceFrame = 0;
+  private minCourtViewScore = 0.4; // linhas do modelo confirmadas no frame para considerá-lo a câmera principal
 
-  async initialize() {
-    if (this.initialized) return;
+  // Trocar a origem ou o tamanho do detector recarrega o modelo
+  async initialize(settings: ModelSettings = this.modelSettings, signal?: AbortSignal) {
+    const sameModel =
+      settings.source === this.modelSettings.source && settings.detectorSize === this.modelSettings.detectorSize;
+    signal?.throwIfAborted();
+    if (this.initialized && sameModel) return;
     
     try {
       console.log('Inicializando detector de objetos...');
-      this.objectDetector = await pipeline(
-        'object-detection',
-        'Xenova/yolov9-c',
-        { device: 'webgpu' }
+      this.initialized = false;
+      this.modelSettings = settings;
+      configureModelLoading(settings.source);
+      const modelId = modelIdFor(DETECTOR_MODELS[settings.detectorSize], settings.source);
+      this.capabilities = await detectCapabilities();
+      const { model, report } = await loadWithFallback(
+        (device, dtype) => pipeline<'object-detection'>('object-detection', modelId, { device, dtype }),
+        this.capabilities
       );
+      this.objectDetector = model;
+      this.backendReport = report;
       this.initialized = true;
-      console.log('Detector inicializado com sucesso');
+      console.log(`Detector inicializado com sucesso (${report.backend}, ${report.dtype})`);
+      // O carregamento em si não é interrompível; o modelo fica pronto para a próxima análise
+      signal?.throwIfAborted();
     } catch (error) {
-      console.error('Erro ao inicializar detector:', error);
+      if (!isAbortError(error)) console.error('Erro ao inicializar detector:', error);
       throw error;
     }
   }
 
   async processFrame(
-    canvas: HTMLCanvasElement,
+    canvas: FrameCanvas,
     frameNumber: number,
-    timestamp: number
+    timestamp: number,
+    sourceFrame = frameNumber,
+    signal?: AbortSignal
   ): Promise<TennisAnalysis> {
     if (!this.initialized) {
       throw new Error('Processor not initialized');
     }
 
     try {
+      signal?.throwIfAborted();
+      const image = this.readFrame(canvas);
+      const isCut = this.sceneClassifier.detectCut(image);
+      const sceneMotion = this.measureSceneMotion(image, sourceFrame, isCut);
+      const court = this.updateCourtCalibration(image, frameNumber, isCut);
+      const scene = this.sceneClassifier.classify(timestamp, isCut, shot => this.showsCourt(image, court, shot));
+
+      // Replays, closes e artes não passam pelo detector nem pelos rastreadores
+      if (scene.type !== 'play') {
+        return {
+          frame: frameNumber,
+          sourceFrame,
+          timestamp,
+          scene: scene.type,
+          shot: scene.shot,
+          sceneMotion,
+          players: [],
+          tracks: [],
+          ball: null,
+          ballPosition: { frame: frameNumber, timestamp, position: null, confidence: 0, status: 'missing' },
+          court,
+          poses: []
+        };
+      }
+      // A diferença entre frames do rastreador da bola veria a troca de câmera como movimento
+      if (scene.isCut) {
+        this.ballTracker.reset();
+      }
+
       // Detectar objetos no frame
       const detections = await this.objectDetector(canvas);
+      signal?.throwIfAborted();
       
       // Filtrar e classificar detecções
-      const players: DetectionResult[] = [];
+      const persons: DetectionResult[] = [];
+      const ballCandidates: DetectionResult[] = [];
       let ball: DetectionResult | null = null;
-      let court: DetectionResult | null = null;
 
       for (const detection of detections) {
         const { box, score, label } = detection;
         
-        if (score < 0.5) continue; // Filtrar detecções com baixa confiança
+        // Pessoas e bolas de baixa confiança ainda servem aos rastreadores
+        if (score < (label === 'person' ? 0.1 : 0.2)) continue;
         
         const bbox: [number, number, number, number] = [
           box.xmin,
@@ -78,27 +192,35 @@ export class VideoProcessor {
 
         // Classificar por tipo de objeto
         if (label === 'person') {
-          players.push(result);
+          persons.push(result);
         } else if (label === 'sports ball' || this.isBallLike(result)) {
-          if (!ball || score > ball.score) {
+          ballCandidates.push(result);
+          if (score >= 0.5 && (!ball || score > ball.score)) {
             ball = result;
           }
-        } else if (this.isCourtLike(result)) {
-          if (!court || score > court.score) {
-            court = result;
-          }
         }
       }
 
+      const { players, tracks } = this.playerTracker.update(persons, court, timestamp);
+      const ballPosition = this.ballTracker.update(frameNumber, timestamp, image, ballCandidates, tracks);
+      const poses = this.poseEnabled ? await this.poseEstimator.estimate(canvas, players, signal) : [];
+
       return {
         frame: frameNumber,
+        sourceFrame,
         timestamp,
-        players: players.slice(0, 2), // Máximo 2 jogadores
+        scene: scene.type,
+        shot: scene.shot,
+        sceneMotion,
+        players,
+        tracks,
         ball,
-        court
+        ballPosition,
+        court,
+        poses
       };
     } catch (error) {
-      console.error('Erro ao processar frame:', error);
+      if (!isAbortError(error)) console.error('Erro ao processar frame:', error);
       throw error;
     }
   }
@@ -113,154 +235,300 @@ export class VideoProcessor {
     return area < 2000 && Math.abs(width - height) < Math.min(width, height) * 0.5;
   }
 
-  private isCourtLike(result: DetectionResult): boolean {
-    const [x1, y1, x2, y2] = result.bbox;
-    const width = x2 - x1;
-    const height = y2 - y1;
-    const area = width * height;
-    
-    // Quadra deve ser grande e retangular
-    return area > 50000 && width > height * 1.5;
+  private readFrame(canvas: FrameCanvas): ImageData {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true }) as
+      | CanvasRenderingContext2D
+      | OffscreenCanvasRenderingContext2D
+      | null;
+    if (!ctx) throw new Error('Canvas context not available');
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
   }
 
-  async processVideo(
-    video: HTMLVideoElement,
-    canvas: HTMLCanvasElement,
-    onProgress?: (progress: number) => void,
-    onFrame?: (analysis: TennisAnalysis) => void
-  ): Promise<TennisAnalysis[]> {
-    if (!this.initialized) {
-      await this.initialize();
+  // Quanto a cena se mexe por frame desde a amostra anterior; zero numa troca de câmera
+  private measureSceneMotion(image: ImageData, sourceFrame: number, isCut: boolean): number {
+    const signature = this.frameSignature(image);
+    const distance = this.previousSignature ? this.signatureDistance(signature, this.previousSignature) : 0;
+    const frames = Math.max(1, sourceFrame - this.previousSourceFrame);
+    this.previousSignature = signature;
+    this.previousSourceFrame = sourceFrame;
+    return isCut ? 0 : distance / frames;
+  }
+
+  // Câmera principal: a quadra calibrada confere com as linhas do frame
+  private showsCourt(image: ImageData, court: CourtCalibration | null, shot: number): boolean {
+    if (!court) return false;
+    // A calibração manual vale para a tomada inicial mesmo com linhas pouco visíveis
+    if (court.source === 'manual' && shot === 0) return true;
+    return this.courtDetector.verify(image, court) >= this.minCourtViewScore;
+  }
+
+  // Recalcula a homografia da quadra no início do vídeo e a cada troca de câmera
+  private updateCourtCalibration(image: ImageData, frameNumber: number, isCut: boolean): CourtCalibration | null {
+    // A calibração manual tem prioridade sobre a detecção automática
+    if (this.manualCalibration) return this.manualCalibration;
+
+    if (isCut || !this.calibration) {
+      const detected = this.courtDetector.detect(image, frameNumber);
+      // Em uma troca de câmera a homografia anterior deixa de valer, mesmo sem nova detecção
+      if (detected || isCut) {
+        this.calibration = detected;
+      }
     }
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error('Canvas context not available');
+    return this.calibration;
+  }
 
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
+  // Miniatura 16x9 de luminância usada para medir o movimento da cena
+  private frameSignature(image: ImageData): Float32Array {
+    const cols = 16;
+    const rows = 9;
+    const signature = new Float32Array(cols * rows);
+    const counts = new Uint32Array(cols * rows);
+    const step = 4;
 
-    const duration = video.duration;
-    const fps = 30;
-    const frameInterval = 1 / fps;
-    const results: TennisAnalysis[] = [];
+    for (let y = 0; y < image.height; y += step) {
+      const row = Math.min(rows - 1, Math.floor((y / image.height) * rows));
+      for (let x = 0; x < image.width; x += step) {
+        const col = Math.min(cols - 1, Math.floor((x / image.width) * cols));
+        const offset = (y * image.width + x) * 4;
+        signature[row * cols + col] +=
+          0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+        counts[row * cols + col]++;
+      }
+    }
 
-    let currentTime = 0;
-    let frameNumber = 0;
+    for (let i = 0; i < signature.length; i++) {
+      signature[i] /= Math.max(1, counts[i]);
+    }
+    return signature;
+  }
 
-    while (currentTime < duration) {
-      video.currentTime = currentTime;
-      
-      // Esperar o frame carregar
-      await new Promise<void>((resolve) => {
-        const onSeeked = () => {
-          video.removeEventListener('seeked', onSeeked);
-          resolve();
-        };
-        video.addEventListener('seeked', onSeeked);
-      });
+  private signatureDistance(a: Float32Array, b: Float32Array): number {
+    let total = 0;
+    for (let i = 0; i < a.length; i++) {
+      total += Math.abs(a[i] - b[i]);
+    }
+    return total / a.length;
+  }
 
-      // Desenhar frame no canvas
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  getBackendReport(): BackendReport | null {
+    return this.backendReport;
+  }
 
-      try {
-        // Processar frame
-        const analysis = await this.processFrame(canvas, frameNumber, currentTime);
-        results.push(analysis);
-        
-        if (onFrame) {
-          onFrame(analysis);
-        }
-      } catch (error) {
-        console.error(`Erro no frame ${frameNumber}:`, error);
-      }
+  getPoseBackendReport(): BackendReport | null {
+    return this.poseEnabled ? this.poseEstimator.getBackendReport() : null;
+  }
 
-      // Atualizar progresso
-      const progress = (currentTime / duration) * 100;
-      if (onProgress) {
-        onProgress(progress);
-      }
+  setManualCalibration(calibration: CourtCalibration | null) {
+    this.manualCalibration = calibration;
+  }
+
+  getManualCalibration(): CourtCalibration | null {
+    return this.manualCalibration;
+  }
+
+  // A pose é opcional: o modelo só é carregado na próxima análise com ela ligada
+  setPoseEstimation(enabled: boolean) {
+    this.poseEnabled = enabled;
+  }
+
+  resetCourtState() {
+    this.calibration = null;
+    this.sceneClassifier.reset();
+    this.previousSignature = null;
+    this.previousSourceFrame = 0;
+  }
 
-      currentTime += frameInterval * 5; // Processar a cada 5 frames para performance
-      frameNumber++;
+  resetTracking() {
+    this.resetCourtState();
+    this.playerTracker.reset();
+    this.ballTracker.reset();
+  }
+
+  // Prepara os rastreadores para um novo vídeo; os frames chegam depois por processFrame
+  async beginVideo(signal?: AbortSignal) {
+    if (!this.initialized) {
+      await this.initialize(this.modelSettings, signal);
     }
+    if (this.poseEnabled) {
+      await this.poseEstimator.initialize(this.capabilities!, modelIdFor(POSE_MODEL, this.modelSettings.source));
+    }
+    signal?.throwIfAborted();
+    this.resetTracking();
+  }
+
+  trackingState(): TrackingState {
+    return {
+      scene: this.sceneClassifier.snapshot(),
+      ball: this.ballTracker.snapshot(),
+      calibration: this.calibration,
+      previousSignature: this.previousSignature,
+      previousSourceFrame: this.previousSourceFrame,
+    };
+  }
+
+  // Retoma uma análise interrompida: rastreadores e quadra voltam ao estado do último frame salvo
+  resumeVideo(analyses: TennisAnalysis[], state: TrackingState) {
+    const last = analyses[analyses.length - 1];
+    if (!last) return;
+
+    const lastTrackId = analyses.reduce(
+      (max, analysis) => analysis.tracks.reduce((trackMax, track) => Math.max(trackMax, track.trackId), max),
+      0
+    );
+    this.playerTracker.restore(last.tracks, lastTrackId + 1, last.timestamp);
+    this.sceneClassifier.restore(state.scene);
+    this.ballTracker.restore(state.ball);
+    this.calibration = state.calibration;
+    this.previousSignature = state.previousSignature;
+    this.previousSourceFrame = state.previousSourceFrame;
+  }
 
+  // Remover outliers e interpolar as lacunas da trilha da bola, sem atravessar trocas de câmera
+  finishVideo(results: TennisAnalysis[]): TennisAnalysis[] {
+    let start = 0;
+    while (start < results.length) {
+      const { shot, scene } = results[start];
+      let end = start + 1;
+      while (end < results.length && results[end].shot === shot && results[end].scene === scene) end++;
+
+      if (scene === 'play') {
+        const segment = results.slice(start, end);
+        const ballTrack = this.ballTracker.finalize(segment.map(analysis => analysis.ballPosition));
+        segment.forEach((analysis, index) => {
+          analysis.ballPosition = ballTrack[index];
+        });
+      }
+      start = end;
+    }
     return results;
   }
 
-  generateHeatmap(
-    analyses: TennisAnalysis[],
-    width: number,
-    height: number,
-    type: 'players' | 'ball'
-  ): number[][] {
-    const heatmap = Array(height).fill(null).map(() => Array(width).fill(0));
+  // Pontos dos mapas de calor: pés de cada jogador, bola na imagem e quiques na quadra
+  // Posições na imagem, para sobrepor o mapa a um frame do vídeo
+  collectHeatmapSeries(analyses: TennisAnalysis[]): HeatmapSeries[] {
+    const players: HeatmapSeries[] = this.getTrackTimelines(analyses)
+      .filter(timeline => timeline.role === 'player')
+      .map(timeline => ({
+        id: `player-${timeline.trackId}`,
+        kind: 'player',
+        trackId: timeline.trackId,
+        points: timeline.points.map(point => footPoint(point.bbox)),
+      }));
+
+    const ball: HeatmapSeries = {
+      id: 'ball',
+      kind: 'ball',
+      trackId: null,
+      points: analyses.map(analysis => analysis.ballPosition.position).filter((point): point is Point2D => point !== null),
+    };
+
+    return [...players, ball];
+  }
+
+  // Pés dos jogadores e quiques na quadra, em metros, por jogador, set e tipo de golpe
+  buildCourtHeatmaps(analyses: TennisAnalysis[], rallies: Rally[], hits: HitEvent[], bounces: BounceEvent[]): CourtHeatmaps {
+    return this.courtHeatmapBuilder.build(analyses, rallies, hits, bounces);
+  }
+
+  detectBounces(analyses: TennisAnalysis[]): BounceEvent[] {
+    return this.bounceDetector.detect(analyses);
+  }
+
+  detectHits(analyses: TennisAnalysis[], bounces: BounceEvent[]): HitEvent[] {
+    return this.hitDetector.detect(analyses, bounces);
+  }
+
+  segmentPoints(analyses: TennisAnalysis[], bounces: BounceEvent[], hits: HitEvent[]): Rally[] {
+    return this.pointSegmenter.segment(analyses, hits, bounces);
+  }
+
+  // Preenche tipo, efeito e sucesso de cada golpe dos pontos segmentados
+  classifyShots(analyses: TennisAnalysis[], rallies: Rally[], bounces: BounceEvent[], hits: HitEvent[]): HitEvent[] {
+    const classifications = this.shotClassifier.classify(analyses, rallies, bounces);
+    for (const hit of hits) {
+      const classification = classifications.get(hit);
+      if (classification) Object.assign(hit, classification);
+    }
+    return hits;
+  }
+
+  // Preenche a mecânica de cada golpe a partir das poses do frame de contato
+  measureStrokes(analyses: TennisAnalysis[], hits: HitEvent[]): HitEvent[] {
+    const measurements = this.biomechanicsAnalyzer.measure(analyses, hits);
+    for (const hit of hits) {
+      hit.biomechanics = measurements.get(hit) ?? null;
+    }
+    return hits;
+  }
+
+  // Linha do tempo de cada trilha; o papel é o mais frequente ao longo da trilha
+  getTrackTimelines(analyses: TennisAnalysis[]): TrackTimeline[] {
+    const timelines = new Map<number, TrackTimeline & { playerFrames: number }>();
 
     for (const analysis of analyses) {
-      if (type === 'players') {
-        for (const player of analysis.players) {
-          const [x1, y1, x2, y2] = player.bbox;
-          const centerX = Math.floor((x1 + x2) / 2);
-          const centerY = Math.floor((y1 + y2) / 2);
-          
-          if (centerX >= 0 && centerX < width && centerY >= 0 && centerY < height) {
-            heatmap[centerY][centerX] += 1;
-          }
-        }
-      } else if (type === 'ball' && analysis.ball) {
-        const [x1, y1, x2, y2] = analysis.ball.bbox;
-        const centerX = Math.floor((x1 + x2) / 2);
-        const centerY = Math.floor((y1 + y2) / 2);
-        
-        if (centerX >= 0 && centerX < width && centerY >= 0 && centerY < height) {
-          heatmap[centerY][centerX] += 1;
+      for (const track of analysis.tracks) {
+        let timeline = timelines.get(track.trackId);
+        if (!timeline) {
+          timeline = { trackId: track.trackId, role: 'other', points: [], playerFrames: 0 };
+          timelines.set(track.trackId, timeline);
         }
+        timeline.points.push({
+          frame: analysis.frame,
+          timestamp: analysis.timestamp,
+          bbox: track.bbox,
+          courtPosition: track.courtPosition,
+        });
+        if (track.role === 'player') timeline.playerFrames++;
       }
     }
 
-    return heatmap;
+    return [...timelines.values()].map(({ playerFrames, ...timeline }) => ({
+      ...timeline,
+      role: playerFrames > timeline.points.length / 2 ? 'player' : 'other',
+    }));
   }
 
-  calculateStats(analyses: TennisAnalysis[]) {
-    let totalShots = 0;
+  calculateStats(analyses: TennisAnalysis[], rallies: Rally[], hits: HitEvent[]) {
     let ballDetections = 0;
     let playerMovements = 0;
     
-    let prevBallPosition: [number, number] | null = null;
-    
     for (const analysis of analyses) {
-      if (analysis.ball) {
+      const { status } = analysis.ballPosition;
+      if (status === 'detected' || status === 'motion') {
         ballDetections++;
-        const [x1, y1, x2, y2] = analysis.ball.bbox;
-        const currentPos: [number, number] = [(x1 + x2) / 2, (y1 + y2) / 2];
-        
-        if (prevBallPosition) {
-          const distance = Math.sqrt(
-            Math.pow(currentPos[0] - prevBallPosition[0], 2) +
-            Math.pow(currentPos[1] - prevBallPosition[1], 2)
-          );
-          
-          // Se a bola se moveu significativamente, conta como um golpe
-          if (distance > 50) {
-            totalShots++;
-          }
-        }
-        
-        prevBallPosition = currentPos;
       }
       
       playerMovements += analysis.players.length;
     }
 
-    // Estimativas baseadas nas detecções
-    const winners = Math.floor(totalShots * 0.15); // ~15% winners
-    const errors = Math.floor(totalShots * 0.12);   // ~12% erros
-    
+    // Golpes detectados, atribuídos a cada trilha de jogador
+    const shotsByPlayer: Record<number, number> = {};
+    for (const hit of hits) {
+      shotsByPlayer[hit.trackId] = (shotsByPlayer[hit.trackId] ?? 0) + 1;
+    }
+
+    // Desfechos reais dos pontos segmentados
+    const countOutcome = (...outcomes: Rally['outcome'][]) =>
+      rallies.filter(rally => outcomes.includes(rally.outcome)).length;
+    const winners = countOutcome('winner', 'ace');
+    const errors = countOutcome('forced-error', 'unforced-error', 'double-fault');
+
+    const playerTracks = this.getTrackTimelines(analyses).filter(timeline => timeline.role === 'player');
+
     return {
-      shots: totalShots,
+      shots: hits.length,
+      shotsByPlayer,
       winners,
       errors,
+      aces: countOutcome('ace'),
+      doubleFaults: countOutcome('double-fault'),
+      forcedErrors: countOutcome('forced-error'),
+      unforcedErrors: countOutcome('unforced-error'),
+      points: rallies.filter(rally => rally.outcome !== 'fault').length,
       ballDetections,
       playerMovements,
+      playerTracks: playerTracks.length,
       averagePlayersPerFrame: playerMovements / analyses.length
     };
   }
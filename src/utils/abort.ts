@@ -0,0 +1,12 @@
+// Cancelamentos chegam como DOMException AbortError, inclusive os vindos do worker
+export const abortError = (): DOMException => new DOMException('Análise cancelada', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+// Resolve quando o sinal for abortado; nunca resolve sem sinal
+export const whenAborted = (signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    if (!signal) return;
+    if (signal.aborted) resolve();
+    else signal.addEventListener('abort', () => resolve(), { once: true });
+  });
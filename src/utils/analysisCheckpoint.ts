@@ -0,0 +1,94 @@
+import type { AnalysisOptions } from '@/workers/analysisProtocol';
+import { withStore } from './database';
+import { SamplingSettings } from './frameSampler';
+import { ModelSettings } from './modelRegistry';
+import { TennisAnalysis, TrackingState } from './VideoProcessor';
+
+// Identifica o vídeo entre recarregamentos da página
+export interface CheckpointTarget {
+  key: string;
+  label: string;
+}
+
+/**
+ * Estado de uma análise em andamento, salvo periodicamente no IndexedDB. Com
+ * ele a análise continua do próximo frame depois de uma pausa ou de um
+ * recarregamento, com as mesmas opções, amostragem e modelos. As análises
+ * ficam em blocos separados, um por trecho de frames, para cada checkpoint
+ * gravar só os frames novos.
+ */
+export interface AnalysisCheckpoint extends CheckpointTarget {
+  updatedAt: number;
+  options: AnalysisOptions;
+  sampling: SamplingSettings;
+  models: ModelSettings;
+  frameRate: number;
+  totalFrames: number;
+  nextFrame: number;        // índice da próxima amostra
+  nextSourceFrame: number;  // próximo frame do vídeo a analisar
+  tracking: TrackingState;  // cena, bola e quadra no último frame salvo
+  analyses: TennisAnalysis[];
+}
+
+// Registro do checkpoint, sem as análises
+type StoredCheckpoint = Omit<AnalysisCheckpoint, 'analyses'>;
+
+// Trecho de análises de um checkpoint, da amostra `firstFrame` até `lastFrame`
+interface CheckpointFrames {
+  key: string;
+  firstFrame: number;
+  lastFrame: number;
+  analyses: TennisAnalysis[];
+}
+
+// Números com largura fixa, para a ordem das chaves seguir a ordem dos frames
+const framesKey = (key: string, first: number, last: number) =>
+  `${key}#${String(first).padStart(9, '0')}-${String(last).padStart(9, '0')}`;
+
+// Todos os blocos de um checkpoint: as chaves começam por `${key}#`
+const framesRange = (key: string) => IDBKeyRange.bound(`${key}#`, `${key}#\uffff`);
+
+// Nome, tamanho e data de modificação bastam para reconhecer o mesmo arquivo
+export const fileCheckpointTarget = (file: File): CheckpointTarget => ({
+  key: `file:${file.name}:${file.size}:${file.lastModified}`,
+  label: file.name,
+});
+
+export const urlCheckpointTarget = (url: string): CheckpointTarget => ({ key: `url:${url}`, label: url });
+
+export const checkpointProgress = (checkpoint: AnalysisCheckpoint): number =>
+  checkpoint.totalFrames > 0 ? Math.min(100, (checkpoint.nextSourceFrame / checkpoint.totalFrames) * 100) : 0;
+
+/**
+ * Grava as análises novas (`frames`, as feitas desde o último checkpoint) e
+ * depois o registro. Se só os frames chegarem a ser gravados, a leitura ignora
+ * os que passam de `nextFrame`.
+ */
+export const saveCheckpoint = async (
+  checkpoint: StoredCheckpoint,
+  frames: TennisAnalysis[]
+): Promise<void> => {
+  if (frames.length > 0) {
+    const firstFrame = frames[0].frame;
+    const lastFrame = frames[frames.length - 1].frame;
+    const chunk: CheckpointFrames = { key: framesKey(checkpoint.key, firstFrame, lastFrame), firstFrame, lastFrame, analyses: frames };
+    await withStore('checkpointFrames', 'readwrite', store => store.put(chunk));
+  }
+  await withStore('checkpoints', 'readwrite', store => store.put(checkpoint));
+};
+
+export const loadCheckpoint = async (key: string): Promise<AnalysisCheckpoint | null> => {
+  const stored = await withStore<StoredCheckpoint | undefined>('checkpoints', 'readonly', store => store.get(key));
+  if (!stored) return null;
+
+  const chunks = await withStore<CheckpointFrames[]>('checkpointFrames', 'readonly', store => store.getAll(framesRange(key)));
+  const analyses = chunks.flatMap(chunk => chunk.analyses).filter(analysis => analysis.frame < stored.nextFrame);
+  return { ...stored, analyses };
+};
+
+export const deleteCheckpoint = async (key: string): Promise<void> => {
+  await withStore('checkpoints', 'readwrite', store => store.delete(key));
+  await withStore('checkpointFrames', 'readwrite', store => store.delete(framesRange(key)));
+};
+
+export const countCheckpoints = (): Promise<number> => withStore('checkpoints', 'readonly', store => store.count());
@@ -0,0 +1,308 @@
+import { z } from 'zod';
+import { VideoAnalysisResult, VideoStats } from '@/workers/analysisProtocol';
+import {
+  analysisExportSchema,
+  analysisSummarySchema,
+  bounceEventSchema,
+  hitEventSchema,
+  ndjsonHeaderSchema,
+  rallySchema,
+  tennisAnalysisSchema,
+} from './analysisSchema';
+import { BounceEvent } from './BounceDetector';
+import { CourtHeatmaps } from './CourtHeatmap';
+import { HeatmapSeries } from './heatmap';
+import { HitEvent } from './HitDetector';
+import { Rally } from './PointSegmenter';
+import { POSE_KEYPOINTS } from './PoseEstimator';
+import { TennisAnalysis } from './VideoProcessor';
+
+export const EXPORT_FORMAT = 'tennis-insight-analysis';
+// Incrementar a cada mudança incompatível nos campos exportados
+export const EXPORT_VERSION = 1;
+
+export interface ExportSource {
+  label: string;      // nome do arquivo ou URL do vídeo
+  analyzedAt: string; // ISO 8601
+  frameRate: number;
+  width: number;      // resolução em que as posições em pixels foram medidas
+  height: number;
+}
+
+export interface AnalysisSummary {
+  stats: VideoStats;
+  heatmaps: HeatmapSeries[];
+  courtHeatmaps: CourtHeatmaps;
+  backends: VideoAnalysisResult['backends'] | null;
+}
+
+/**
+ * Documento de exportação: os dados brutos por frame, os eventos derivados e
+ * o resumo, na mesma forma usada pelo pipeline, para reabrir sem inferência.
+ */
+export interface AnalysisExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: ExportSource;
+  analyses: TennisAnalysis[];
+  hits: HitEvent[];
+  bounces: BounceEvent[];
+  rallies: Rally[];
+  summary: AnalysisSummary;
+}
+
+export type CsvTable = 'frames' | 'tracks' | 'poses' | 'hits' | 'bounces' | 'rallies' | 'stats';
+
+export const CSV_TABLES: CsvTable[] = ['frames', 'tracks', 'poses', 'hits', 'bounces', 'rallies', 'stats'];
+
+// Uma linha por registro; o cabeçalho vem primeiro e o resumo por último
+type NdjsonRecord =
+  | { type: 'header'; format: string; version: number; exportedAt: string; source: ExportSource }
+  | { type: 'frame'; data: TennisAnalysis }
+  | { type: 'hit'; data: HitEvent }
+  | { type: 'bounce'; data: BounceEvent }
+  | { type: 'rally'; data: Rally }
+  | { type: 'summary'; data: AnalysisSummary };
+
+export const createAnalysisExport = (
+  source: Omit<ExportSource, 'frameRate' | 'width' | 'height'>,
+  result: Omit<VideoAnalysisResult, 'backends'> & { backends: VideoAnalysisResult['backends'] | null }
+): AnalysisExport => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  source: { ...source, frameRate: result.frameRate, width: result.width, height: result.height },
+  analyses: result.analyses,
+  hits: result.hits,
+  bounces: result.bounces,
+  rallies: result.rallies,
+  summary: {
+    stats: result.stats,
+    heatmaps: result.heatmaps,
+    courtHeatmaps: result.courtHeatmaps,
+    backends: result.backends,
+  },
+});
+
+export const exportJson = (exported: AnalysisExport): Blob =>
+  new Blob([JSON.stringify(exported)], { type: 'application/json' });
+
+function* ndjsonRecords(exported: AnalysisExport): Generator<NdjsonRecord> {
+  const { format, version, exportedAt, source } = exported;
+  yield { type: 'header', format, version, exportedAt, source };
+  for (const data of exported.analyses) yield { type: 'frame', data };
+  for (const data of exported.hits) yield { type: 'hit', data };
+  for (const data of exported.bounces) yield { type: 'bounce', data };
+  for (const data of exported.rallies) yield { type: 'rally', data };
+  yield { type: 'summary', data: exported.summary };
+}
+
+// Cada registro vira uma parte do Blob, sem montar uma string única com a análise
+// inteira; o arquivo ainda fica todo na memória até o download, não é um stream
+export const exportNdjson = (exported: AnalysisExport): Blob =>
+  new Blob(
+    Array.from(ndjsonRecords(exported), record => `${JSON.stringify(record)}\n`),
+    { type: 'application/x-ndjson' }
+  );
+
+type CsvValue = string | number | boolean | null | undefined;
+
+const csvCell = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'number' ? String(Number(value.toFixed(6))) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: CsvValue[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+
+const csvContent = (exported: AnalysisExport, table: CsvTable): string => {
+  switch (table) {
+    case 'frames':
+      return toCsv(
+        ['frame', 'sourceFrame', 'timestamp', 'scene', 'shot', 'sceneMotion', 'players', 'tracks',
+          'ballX', 'ballY', 'ballStatus', 'ballConfidence', 'ballDetectionScore', 'courtSource', 'courtScore'],
+        exported.analyses.map(a => [
+          a.frame, a.sourceFrame, a.timestamp, a.scene, a.shot, a.sceneMotion, a.players.length, a.tracks.length,
+          a.ballPosition.position?.[0], a.ballPosition.position?.[1], a.ballPosition.status, a.ballPosition.confidence,
+          a.ball?.score, a.court?.source, a.court?.score,
+        ])
+      );
+    case 'tracks':
+      return toCsv(
+        ['frame', 'timestamp', 'trackId', 'role', 'x1', 'y1', 'x2', 'y2', 'score', 'courtX', 'courtY'],
+        exported.analyses.flatMap(a =>
+          a.tracks.map(track => [
+            a.frame, a.timestamp, track.trackId, track.role, ...track.bbox, track.score,
+            track.courtPosition?.[0], track.courtPosition?.[1],
+          ])
+        )
+      );
+    case 'poses':
+      return toCsv(
+        ['frame', 'timestamp', 'trackId', ...POSE_KEYPOINTS.flatMap(name => [`${name}-x`, `${name}-y`, `${name}-score`])],
+        exported.analyses.flatMap(a =>
+          a.poses.map(pose => [
+            a.frame, a.timestamp, pose.trackId,
+            ...pose.keypoints.flatMap(([x, y], index) => [x, y, pose.scores[index]]),
+          ])
+        )
+      );
+    case 'hits':
+      return toCsv(
+        ['frame', 'timestamp', 'trackId', 'shotType', 'spin', 'successful', 'speed', 'directionAngle', 'confidence',
+          'ballX', 'ballY', 'playerX', 'playerY', 'kneeBend', 'shoulderRotation', 'contactHeight', 'armExtension', 'hittingArm'],
+        exported.hits.map(hit => [
+          hit.frame, hit.timestamp, hit.trackId, hit.shotType, hit.spin, hit.successful, hit.speed, hit.directionAngle,
+          hit.confidence, ...hit.ballImage, hit.playerPosition?.[0], hit.playerPosition?.[1],
+          hit.biomechanics?.kneeBend, hit.biomechanics?.shoulderRotation, hit.biomechanics?.contactHeight,
+          hit.biomechanics?.armExtension, hit.biomechanics?.hittingArm,
+        ])
+      );
+    case 'bounces':
+      return toCsv(
+        ['frame', 'timestamp', 'imageX', 'imageY', 'courtX', 'courtY', 'nearestLine', 'distanceToLine', 'verdict', 'confidence'],
+        exported.bounces.map(bounce => [
+          bounce.frame, bounce.timestamp, ...bounce.image, ...bounce.court, bounce.nearestLine, bounce.distanceToLine,
+          bounce.verdict, bounce.confidence,
+        ])
+      );
+    case 'rallies':
+      return toCsv(
+        ['index', 'startFrame', 'endFrame', 'startTime', 'endTime', 'duration', 'server', 'shots', 'bounces',
+          'outcome', 'lastHitter', 'pointWinner'],
+        exported.rallies.map(rally => [
+          rally.index, rally.startFrame, rally.endFrame, rally.startTime, rally.endTime, rally.duration, rally.server,
+          rally.shots.length, rally.bounces.length, rally.outcome, rally.lastHitter, rally.pointWinner,
+        ])
+      );
+    case 'stats': {
+      const { shotsByPlayer, ...totals } = exported.summary.stats;
+      return toCsv(
+        ['metric', 'value'],
+        [
+          ...Object.entries(totals),
+          ...Object.entries(shotsByPlayer).map(([trackId, shots]) => [`shotsByPlayer.${trackId}`, shots]),
+        ]
+      );
+    }
+  }
+};
+
+export const exportCsv = (exported: AnalysisExport, table: CsvTable): Blob =>
+  new Blob([csvContent(exported, table)], { type: 'text/csv' });
+
+const describeIssue = (error: z.ZodError, prefix = '') => {
+  const [issue] = error.issues;
+  const path = [prefix, ...issue.path].filter(part => part !== '').join('.');
+  return path ? `${path}: ${issue.message}` : issue.message;
+};
+
+const checkHeader = (header: Record<string, unknown>) => {
+  if (header.format !== EXPORT_FORMAT) {
+    throw new Error('O arquivo não é uma exportação de análise do Tennis Insight');
+  }
+  if (typeof header.version !== 'number' || header.version > EXPORT_VERSION) {
+    throw new Error(`Arquivo exportado por uma versão mais nova (formato ${header.version}); atualize o aplicativo`);
+  }
+};
+
+const parseJson = (text: string): AnalysisExport => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('O arquivo não é um JSON válido');
+  }
+  checkHeader((raw ?? {}) as Record<string, unknown>);
+
+  const parsed = analysisExportSchema.safeParse(raw);
+  if (!parsed.success) throw new Error(`Arquivo inválido em ${describeIssue(parsed.error)}`);
+  return parsed.data;
+};
+
+const RECORD_SCHEMAS = {
+  frame: tennisAnalysisSchema,
+  hit: hitEventSchema,
+  bounce: bounceEventSchema,
+  rally: rallySchema,
+  summary: analysisSummarySchema,
+};
+
+// Lê o arquivo em pedaços e valida registro a registro, apontando a linha com problema
+const parseNdjson = async (file: File): Promise<AnalysisExport> => {
+  const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+  // Preenchidos dentro de consume; num objeto para o TypeScript não fixar o null inicial
+  const parts: {
+    header: Pick<AnalysisExport, 'format' | 'version' | 'exportedAt' | 'source'> | null;
+    summary: AnalysisSummary | null;
+  } = { header: null, summary: null };
+  const analyses: TennisAnalysis[] = [];
+  const hits: HitEvent[] = [];
+  const bounces: BounceEvent[] = [];
+  const rallies: Rally[] = [];
+  let buffered = '';
+  let lineNumber = 0;
+
+  const parseRecord = <T>(schema: z.ZodType<T>, data: unknown, prefix: string): T => {
+    const parsed = schema.safeParse(data);
+    if (!parsed.success) throw new Error(`Linha ${lineNumber} inválida em ${describeIssue(parsed.error, prefix)}`);
+    return parsed.data;
+  };
+
+  const consume = (line: string) => {
+    lineNumber++;
+    if (!line.trim()) return;
+    let record: { type?: string; data?: unknown } & Record<string, unknown>;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Linha ${lineNumber} não é um JSON válido`);
+    }
+
+    if (lineNumber === 1) {
+      if (record.type !== 'header') throw new Error('O arquivo não começa com o cabeçalho da exportação');
+      checkHeader(record);
+      const parsed = ndjsonHeaderSchema.safeParse(record);
+      if (!parsed.success) throw new Error(`Cabeçalho inválido em ${describeIssue(parsed.error)}`);
+      parts.header = parsed.data;
+      return;
+    }
+
+    switch (record.type) {
+      case 'frame': analyses.push(parseRecord(tennisAnalysisSchema, record.data, 'frame')); break;
+      case 'hit': hits.push(parseRecord(hitEventSchema, record.data, 'hit')); break;
+      case 'bounce': bounces.push(parseRecord(bounceEventSchema, record.data, 'bounce')); break;
+      case 'rally': rallies.push(parseRecord(rallySchema, record.data, 'rally')); break;
+      case 'summary': parts.summary = parseRecord(analysisSummarySchema, record.data, 'summary'); break;
+      default: throw new Error(`Linha ${lineNumber}: tipo de registro desconhecido "${record.type}"`);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    lines.forEach(consume);
+  }
+  consume(buffered);
+
+  const { header, summary } = parts;
+  if (!header) throw new Error('O arquivo está vazio');
+  if (!summary) throw new Error('O arquivo terminou antes do resumo; a exportação pode estar incompleta');
+  return { ...header, analyses, hits, bounces, rallies, summary };
+};
+
+/**
+ * Reabre uma exportação em JSON ou NDJSON (pela extensão `.ndjson`/`.jsonl`).
+ * Arquivos de versões anteriores do formato continuam aceitos; os de versões
+ * mais novas são recusados.
+ */
+export const importAnalysisFile = async (file: File): Promise<AnalysisExport> => {
+  const exported = /\.(ndjson|jsonl)$/i.test(file.name) ? await parseNdjson(file) : parseJson(await file.text());
+  if (exported.analyses.length === 0) throw new Error('O arquivo não tem nenhum frame analisado');
+  return exported;
+};
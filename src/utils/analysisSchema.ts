@@ -0,0 +1,254 @@
+import { z } from 'zod';
+import type { AnalysisExport, AnalysisSummary, ExportSource } from './analysisExport';
+import type { BallObservation } from './BallTracker';
+import type { BounceEvent } from './BounceDetector';
+import type { CourtCalibration, CourtKeypoint } from './CourtDetector';
+import type { CourtHeatmapGroup, CourtHeatmaps, SetHeatmaps, SparseCourtGrid } from './CourtHeatmap';
+import type { HeatmapSeries } from './heatmap';
+import type { HitEvent } from './HitDetector';
+import type { Point2D } from './homography';
+import { MODEL_DTYPES, type BackendCapabilities, type BackendFailure, type BackendReport } from './inferenceBackend';
+import type { TrackedPlayer } from './PlayerTracker';
+import type { Rally } from './PointSegmenter';
+import type { PlayerPose } from './PoseEstimator';
+import { SHOT_TYPES, ShotType } from './ShotClassifier';
+import type { StrokeBiomechanics } from './StrokeBiomechanics';
+import type { DetectionResult, TennisAnalysis } from './VideoProcessor';
+import type { VideoAnalysisResult, VideoStats } from '@/workers/analysisProtocol';
+
+// Validação dos arquivos de análise importados. Cada schema exportado é
+// anotado com o tipo do pipeline: um campo que mude lá quebra a compilação aqui
+
+// Sem strictNullChecks o zod infere toda chave de z.object como opcional, e o
+// resultado não é atribuível ao tipo do pipeline. objectOf exige um schema por
+// chave de T (nem a mais, nem a menos), cada um validando o tipo daquele campo
+type ShapeOf<T> = { [K in keyof T]-?: z.ZodType<T[K], z.ZodTypeDef, unknown> };
+
+const objectOf = <T>(shape: ShapeOf<T>): z.ZodType<T> => z.object(shape as z.ZodRawShape) as unknown as z.ZodType<T>;
+
+const isNumberTuple = (value: unknown, length: number) =>
+  Array.isArray(value) && value.length === length && value.every(item => typeof item === 'number' && Number.isFinite(item));
+
+const point = z.custom<Point2D>(value => isNumberTuple(value, 2), { message: 'Esperado um ponto [x, y]' });
+const bbox = z.custom<[number, number, number, number]>(value => isNumberTuple(value, 4), {
+  message: 'Esperada uma caixa [x1, y1, x2, y2]',
+});
+
+const detection = objectOf<DetectionResult>({
+  bbox,
+  score: z.number(),
+  label: z.string(),
+});
+
+const trackedPlayer = objectOf<TrackedPlayer>({
+  bbox,
+  score: z.number(),
+  label: z.string(),
+  trackId: z.number().int(),
+  role: z.enum(['player', 'other']),
+  courtPosition: point.nullable(),
+});
+
+const ballObservation = objectOf<BallObservation>({
+  frame: z.number().int(),
+  timestamp: z.number(),
+  position: point.nullable(),
+  confidence: z.number(),
+  status: z.enum(['detected', 'motion', 'predicted', 'interpolated', 'missing']),
+});
+
+const courtCalibration = objectOf<CourtCalibration>({
+  homography: z.array(z.number()).length(9),
+  inverse: z.array(z.number()).length(9),
+  keypoints: z.array(objectOf<CourtKeypoint>({ name: z.string(), image: point, court: point })),
+  score: z.number(),
+  source: z.enum(['auto', 'manual']),
+  frame: z.number().int(),
+});
+
+const playerPose = objectOf<PlayerPose>({
+  trackId: z.number().int(),
+  keypoints: z.array(point),
+  scores: z.array(z.number()),
+});
+
+export const tennisAnalysisSchema = objectOf<TennisAnalysis>({
+  frame: z.number().int(),
+  sourceFrame: z.number().int(),
+  timestamp: z.number(),
+  scene: z.enum(['play', 'closeup', 'replay', 'graphics']),
+  shot: z.number().int(),
+  sceneMotion: z.number(),
+  players: z.array(trackedPlayer),
+  tracks: z.array(trackedPlayer),
+  ball: detection.nullable(),
+  ballPosition: ballObservation,
+  court: courtCalibration.nullable(),
+  poses: z.array(playerPose),
+});
+
+const courtLineName = z.enum([
+  'far-baseline',
+  'near-baseline',
+  'far-service-line',
+  'near-service-line',
+  'left-doubles-sideline',
+  'right-doubles-sideline',
+  'left-singles-sideline',
+  'right-singles-sideline',
+  'center-service-line',
+]);
+
+export const bounceEventSchema = objectOf<BounceEvent>({
+  frame: z.number().int(),
+  timestamp: z.number(),
+  image: point,
+  court: point,
+  nearestLine: courtLineName,
+  distanceToLine: z.number(),
+  verdict: z.enum(['IN', 'OUT', 'TOO_CLOSE']),
+  confidence: z.number(),
+});
+
+const shotType = z.enum(SHOT_TYPES as [ShotType, ...ShotType[]]);
+
+export const hitEventSchema = objectOf<HitEvent>({
+  frame: z.number().int(),
+  timestamp: z.number(),
+  trackId: z.number().int(),
+  playerPosition: point.nullable(),
+  ballImage: point,
+  direction: point.nullable(),
+  directionAngle: z.number().nullable(),
+  speed: z.number().nullable(),
+  confidence: z.number(),
+  shotType: shotType.optional(),
+  spin: z.enum(['topspin', 'slice', 'flat', 'unknown']).optional(),
+  successful: z.boolean().nullable().optional(),
+  biomechanics: objectOf<StrokeBiomechanics>({
+      kneeBend: z.number().nullable(),
+      shoulderRotation: z.number().nullable(),
+      contactHeight: z.number().nullable(),
+      armExtension: z.number().nullable(),
+      hittingArm: z.enum(['left', 'right']).nullable(),
+    })
+    .nullable()
+    .optional(),
+});
+
+export const rallySchema = objectOf<Rally>({
+  index: z.number().int(),
+  startFrame: z.number().int(),
+  endFrame: z.number().int(),
+  startTime: z.number(),
+  endTime: z.number(),
+  duration: z.number(),
+  server: z.number().int().nullable(),
+  shots: z.array(hitEventSchema),
+  bounces: z.array(bounceEventSchema),
+  outcome: z.enum(['winner', 'forced-error', 'unforced-error', 'ace', 'double-fault', 'fault', 'unknown']),
+  lastHitter: z.number().int().nullable(),
+  pointWinner: z.number().int().nullable(),
+});
+
+export const videoStatsSchema = objectOf<VideoStats>({
+  shots: z.number(),
+  shotsByPlayer: z.record(z.string(), z.number()),
+  winners: z.number(),
+  errors: z.number(),
+  aces: z.number(),
+  doubleFaults: z.number(),
+  forcedErrors: z.number(),
+  unforcedErrors: z.number(),
+  points: z.number(),
+  ballDetections: z.number(),
+  playerMovements: z.number(),
+  playerTracks: z.number(),
+  averagePlayersPerFrame: z.number(),
+});
+
+const heatmapSeries = objectOf<HeatmapSeries>({
+  id: z.string(),
+  kind: z.enum(['player', 'ball']),
+  trackId: z.number().int().nullable(),
+  points: z.array(point),
+});
+
+const sparseCourtGrid = objectOf<SparseCourtGrid>({
+  cellSize: z.number().positive(),
+  columns: z.number().int().positive(),
+  rows: z.number().int().positive(),
+  origin: point,
+  indices: z.array(z.number().int().nonnegative()),
+  values: z.array(z.number()),
+  samples: z.number().int(),
+});
+
+const courtHeatmapGroup = objectOf<CourtHeatmapGroup>({ players: sparseCourtGrid, bounces: sparseCourtGrid });
+
+const courtHeatmaps = objectOf<CourtHeatmaps>({
+  byPlayer: z.record(z.string(), sparseCourtGrid),
+  bounces: sparseCourtGrid,
+  sets: z.array(
+    objectOf<SetHeatmaps>({
+      players: sparseCourtGrid,
+      bounces: sparseCourtGrid,
+      index: z.number().int(),
+      start: z.number(),
+      end: z.number(),
+    }),
+  ),
+  byShotType: z.record(shotType, courtHeatmapGroup),
+});
+
+const inferenceBackend = z.enum(['webgpu', 'wasm-simd-threads', 'wasm']);
+const modelDataType = z.enum(MODEL_DTYPES);
+
+const backendReport = objectOf<BackendReport>({
+  backend: inferenceBackend,
+  dtype: modelDataType,
+  capabilities: objectOf<BackendCapabilities>({
+    webgpu: z.boolean(),
+    shaderF16: z.boolean(),
+    simd: z.boolean(),
+    threads: z.boolean(),
+    hardwareConcurrency: z.number(),
+  }),
+  failures: z.array(objectOf<BackendFailure>({ backend: inferenceBackend, dtype: modelDataType, error: z.string() })),
+});
+
+// Tudo o que não é por frame nem evento: estatísticas, mapas de calor e backends
+export const analysisSummarySchema = objectOf<AnalysisSummary>({
+  stats: videoStatsSchema,
+  heatmaps: z.array(heatmapSeries),
+  courtHeatmaps,
+  backends: objectOf<VideoAnalysisResult['backends']>({ detector: backendReport, pose: backendReport.nullable() }).nullable(),
+});
+
+export const exportSourceSchema = objectOf<ExportSource>({
+  label: z.string(),
+  analyzedAt: z.string(),
+  frameRate: z.number().positive(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+});
+
+// Primeira linha do NDJSON: os campos do documento que não são listas
+export const ndjsonHeaderSchema = objectOf<Pick<AnalysisExport, 'format' | 'version' | 'exportedAt' | 'source'>>({
+  format: z.literal('tennis-insight-analysis'),
+  version: z.number().int(),
+  exportedAt: z.string(),
+  source: exportSourceSchema,
+});
+
+export const analysisExportSchema = objectOf<AnalysisExport>({
+  format: z.literal('tennis-insight-analysis'),
+  version: z.number().int(),
+  exportedAt: z.string(),
+  source: exportSourceSchema,
+  analyses: z.array(tennisAnalysisSchema),
+  hits: z.array(hitEventSchema),
+  bounces: z.array(bounceEventSchema),
+  rallies: z.array(rallySchema),
+  summary: analysisSummarySchema,
+});
@@ -0,0 +1,125 @@
+import type { AnalysisExport } from './analysisExport';
+import { CourtCalibration } from './CourtDetector';
+import { withStore } from './database';
+
+// De onde veio o vídeo; arquivos locais pequenos o bastante têm o conteúdo salvo junto
+export type SessionVideo =
+  | { kind: 'file'; name: string; size: number; lastModified: number; stored: boolean }
+  | { kind: 'url'; url: string }
+  | { kind: 'none' }; // análise importada sem o vídeo
+
+/**
+ * Ficha de uma partida na biblioteca. Fica em um store separado dos dados da
+ * análise para a listagem não precisar ler frames nem vídeos.
+ */
+export interface AnalysisSession {
+  key: string;
+  label: string;
+  analyzedAt: string;        // ISO 8601
+  updatedAt: number;
+  duration: number;          // segundos analisados
+  thumbnail: string | null;  // JPEG em data URL
+  players: string[];
+  tags: string[];
+  video: SessionVideo;
+  stats: { shots: number; winners: number; errors: number; points: number };
+}
+
+// Lido só ao reabrir: o vídeo, a calibração usada e a análise completa
+export interface AnalysisSessionData {
+  key: string;
+  video: File | null;
+  calibration: CourtCalibration | null;
+  analysis: AnalysisExport;
+}
+
+// Vídeos maiores ficam só como referência; para reabrir, o usuário carrega o arquivo de novo
+export const MAX_STORED_VIDEO_BYTES = 512 * 1024 * 1024;
+
+const THUMBNAIL_WIDTH = 320;
+
+// Sem separadores, para servir direto como segmento de URL
+export const createSessionKey = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Até o usuário dar nomes, os jogadores são os rastreados que bateram na bola
+export const defaultSessionPlayers = (analysis: AnalysisExport): string[] =>
+  Object.entries(analysis.summary.stats.shotsByPlayer)
+    .sort(([, a], [, b]) => b - a)
+    .map(([trackId]) => `Jogador #${trackId}`);
+
+export const sessionStats = (analysis: AnalysisExport): AnalysisSession['stats'] => {
+  const { shots, winners, errors, points } = analysis.summary.stats;
+  return { shots, winners, errors, points };
+};
+
+// Frame atual do player; vídeos de outra origem sem CORS não podem ser lidos do canvas
+export const captureThumbnail = (video: HTMLVideoElement | null): string | null => {
+  if (!video || !video.videoWidth || !video.videoHeight) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.round((THUMBNAIL_WIDTH * video.videoHeight) / video.videoWidth);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  try {
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (error) {
+    console.warn('Não foi possível gerar a miniatura da sessão:', error);
+    return null;
+  }
+};
+
+export const matchesSessionQuery = (session: AnalysisSession, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = [session.label, ...session.players, ...session.tags].join(' ').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+const isQuotaError = (error: unknown) => error instanceof DOMException && error.name === 'QuotaExceededError';
+
+/**
+ * Salva a ficha e os dados da sessão. Sem espaço para o vídeo, salva só a
+ * análise e marca o vídeo como não guardado. Devolve a ficha como ficou salva.
+ */
+export const saveSession = async (session: AnalysisSession, data: AnalysisSessionData): Promise<AnalysisSession> => {
+  let saved = session;
+  try {
+    await withStore('sessionData', 'readwrite', store => store.put(data));
+  } catch (error) {
+    if (!data.video || !isQuotaError(error)) throw error;
+    console.warn('Sem espaço para guardar o vídeo da sessão; salvando só a análise');
+    await withStore('sessionData', 'readwrite', store => store.put({ ...data, video: null }));
+    if (session.video.kind === 'file') saved = { ...session, video: { ...session.video, stored: false } };
+  }
+  // A ficha vai por último: uma sessão listada sempre tem dados para reabrir
+  await withStore('sessions', 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+// Mais recentes primeiro
+export const listSessions = async (): Promise<AnalysisSession[]> => {
+  const sessions = await withStore<AnalysisSession[]>('sessions', 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.analyzedAt.localeCompare(a.analyzedAt));
+};
+
+export const loadSession = async (key: string): Promise<AnalysisSession | null> =>
+  (await withStore<AnalysisSession | undefined>('sessions', 'readonly', store => store.get(key))) ?? null;
+
+export const loadSessionData = async (key: string): Promise<AnalysisSessionData | null> =>
+  (await withStore<AnalysisSessionData | undefined>('sessionData', 'readonly', store => store.get(key))) ?? null;
+
+export const updateSession = async (
+  key: string,
+  changes: Partial<Pick<AnalysisSession, 'label' | 'players' | 'tags'>>
+): Promise<AnalysisSession> => {
+  const session = await loadSession(key);
+  if (!session) throw new Error('Sessão não encontrada na biblioteca');
+  const updated = { ...session, ...changes, updatedAt: Date.now() };
+  await withStore('sessions', 'readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const deleteSession = async (key: string): Promise<void> => {
+  await withStore('sessions', 'readwrite', store => store.delete(key));
+  await withStore('sessionData', 'readwrite', store => store.delete(key));
+};
@@ -0,0 +1,109 @@
+import { COURT_LINES, HALF_DOUBLES_WIDTH, HALF_LENGTH } from '@/data/courtModel';
+import { BOUNCE_VERDICT_COLORS } from '@/data/labels';
+import { BounceEvent } from './BounceDetector';
+import { SparseCourtGrid, toDenseGrid } from './CourtHeatmap';
+import { HeatmapScale, colorizeDensity, gaussianBlur } from './heatmap';
+import { Point2D } from './homography';
+
+// Quadra vista de cima, com a rede na vertical e a câmera à direita
+export interface CourtCanvasLayout {
+  pixelsPerMeter: number;
+  margin: [number, number]; // metros desenhados além das linhas de base e das laterais de duplas
+}
+
+export const courtCanvasSize = ({ pixelsPerMeter, margin }: CourtCanvasLayout) => ({
+  width: Math.round((HALF_LENGTH + margin[0]) * 2 * pixelsPerMeter),
+  height: Math.round((HALF_DOUBLES_WIDTH + margin[1]) * 2 * pixelsPerMeter),
+});
+
+export const courtToCanvas = ({ pixelsPerMeter, margin }: CourtCanvasLayout, [x, y]: Point2D): Point2D => [
+  (x + HALF_LENGTH + margin[0]) * pixelsPerMeter,
+  (y + HALF_DOUBLES_WIDTH + margin[1]) * pixelsPerMeter,
+];
+
+export const drawCourt = (ctx: CanvasRenderingContext2D, layout: CourtCanvasLayout) => {
+  const { width, height } = courtCanvasSize(layout);
+  ctx.fillStyle = '#2f6f4f';
+  ctx.fillRect(0, 0, width, height);
+  const [left, top] = courtToCanvas(layout, [-HALF_LENGTH, -HALF_DOUBLES_WIDTH]);
+  const [right, bottom] = courtToCanvas(layout, [HALF_LENGTH, HALF_DOUBLES_WIDTH]);
+  ctx.fillStyle = '#3b7dbf';
+  ctx.fillRect(left, top, right - left, bottom - top);
+};
+
+export const drawCourtLines = (ctx: CanvasRenderingContext2D, layout: CourtCanvasLayout) => {
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.lineWidth = 2;
+  for (const line of COURT_LINES) {
+    const [x1, y1] = courtToCanvas(layout, line.start);
+    const [x2, y2] = courtToCanvas(layout, line.end);
+    ctx.beginPath();
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+    ctx.stroke();
+  }
+  // Rede
+  const [netX, netTop] = courtToCanvas(layout, [0, -HALF_DOUBLES_WIDTH - 0.9]);
+  const [, netBottom] = courtToCanvas(layout, [0, HALF_DOUBLES_WIDTH + 0.9]);
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.setLineDash([4, 4]);
+  ctx.beginPath();
+  ctx.moveTo(netX, netTop);
+  ctx.lineTo(netX, netBottom);
+  ctx.stroke();
+  ctx.setLineDash([]);
+};
+
+// Soma as grades dadas; todas cobrem a mesma área com o mesmo tamanho de célula
+export const sumGrids = (grids: SparseCourtGrid[]): Float32Array | null => {
+  if (grids.length === 0) return null;
+  const total = toDenseGrid(grids[0]);
+  for (const grid of grids.slice(1)) {
+    grid.indices.forEach((index, i) => {
+      total[index] += grid.values[i];
+    });
+  }
+  return total;
+};
+
+/**
+ * Pinta a soma das grades sobre a quadra. A grade é colorida numa camada com
+ * uma célula por pixel e ampliada com interpolação; `smoothing` acrescenta um
+ * desfoque gaussiano em metros ao kernel já aplicado na análise.
+ */
+export const drawCourtDensity = (
+  ctx: CanvasRenderingContext2D,
+  layout: CourtCanvasLayout,
+  grids: SparseCourtGrid[],
+  { scale = 'linear', opacity = 0.8, smoothing = 0 }: { scale?: HeatmapScale; opacity?: number; smoothing?: number } = {}
+) => {
+  const [first] = grids;
+  const total = sumGrids(grids);
+  if (!first || !total) return;
+
+  const { columns, rows, cellSize } = first;
+  const density = gaussianBlur(total, columns, rows, smoothing / cellSize);
+  const layer = document.createElement('canvas');
+  layer.width = columns;
+  layer.height = rows;
+  layer.getContext('2d')?.putImageData(new ImageData(colorizeDensity(density, scale), columns, rows), 0, 0);
+
+  const [left, top] = courtToCanvas(layout, first.origin);
+  const size = cellSize * layout.pixelsPerMeter;
+  ctx.globalAlpha = opacity;
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(layer, left, top, columns * size, rows * size);
+  ctx.globalAlpha = 1;
+};
+
+// Quiques como pontos coloridos pela marcação de linha
+export const drawBounces = (ctx: CanvasRenderingContext2D, layout: CourtCanvasLayout, bounces: BounceEvent[]) => {
+  const radius = Math.max(3, layout.pixelsPerMeter * 0.2);
+  for (const bounce of bounces) {
+    const [x, y] = courtToCanvas(layout, bounce.court);
+    ctx.fillStyle = BOUNCE_VERDICT_COLORS[bounce.verdict];
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
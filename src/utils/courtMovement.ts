@@ -0,0 +1,103 @@
+import { BounceEvent } from './BounceDetector';
+import { CourtHeatmaps, SparseCourtGrid } from './CourtHeatmap';
+import { HitEvent } from './HitDetector';
+import { TennisAnalysis } from './VideoProcessor';
+
+// Ponto na cena 3D: x no comprimento da quadra, z na largura, y a altura, em metros
+export interface MovementPoint3D {
+  x: number;
+  y: number;
+  z: number;
+  timestamp: number; // segundos
+  speed: number;     // m/s desde o ponto anterior
+}
+
+export interface PlayerPath3D {
+  trackId: number;
+  points: MovementPoint3D[];
+}
+
+export interface MovementInsights {
+  averageSpeed: number | null;  // deslocamento médio dos jogadores, em km/h
+  courtCoverage: number | null; // área percorrida pelos jogadores, em m²
+  successRate: number | null;   // % dos golpes com desfecho conhecido que deram certo
+}
+
+export interface Analysis3D {
+  players: PlayerPath3D[];
+  ball: MovementPoint3D[];
+  insights: MovementInsights;
+}
+
+const PATH_INTERVAL = 0.5; // segundos entre pontos do caminho de cada jogador
+const MAX_GAP = 2;         // intervalos maiores (pausa, corte de cena) não contam na velocidade
+const COVERAGE_DENSITY = 0.05; // fração do pico a partir da qual a célula conta como percorrida
+
+// Área das células com densidade relevante, somada entre os jogadores
+const coveredArea = (grids: SparseCourtGrid[]): number | null => {
+  if (grids.length === 0) return null;
+  return grids.reduce((area, grid) => {
+    const peak = Math.max(0, ...grid.values);
+    const cells = grid.values.filter(value => value >= peak * COVERAGE_DENSITY).length;
+    return area + cells * grid.cellSize * grid.cellSize;
+  }, 0);
+};
+
+/**
+ * Dados da visualização 3D a partir do que foi medido: o caminho dos pés de
+ * cada jogador na quadra, e a bola pelos pontos de contato e de quique. A
+ * altura da bola não é estimada, então a trilha fica no plano da quadra.
+ * Retorna null quando não há nenhuma posição na quadra (sem calibração).
+ */
+export const buildAnalysis3D = (
+  analyses: TennisAnalysis[],
+  hits: HitEvent[],
+  bounces: BounceEvent[],
+  courtHeatmaps: CourtHeatmaps
+): Analysis3D | null => {
+  const paths = new Map<number, MovementPoint3D[]>();
+  let distance = 0;
+  let time = 0;
+
+  for (const analysis of analyses) {
+    for (const player of analysis.players) {
+      if (!player.courtPosition) continue;
+      const [x, z] = player.courtPosition;
+      const points = paths.get(player.trackId) ?? [];
+      const last = points[points.length - 1];
+      if (last && analysis.timestamp - last.timestamp < PATH_INTERVAL) continue;
+
+      const elapsed = last ? analysis.timestamp - last.timestamp : 0;
+      const step = last ? Math.hypot(x - last.x, z - last.z) : 0;
+      const continuous = last !== undefined && elapsed <= MAX_GAP;
+      if (continuous) {
+        distance += step;
+        time += elapsed;
+      }
+      points.push({ x, y: 0, z, timestamp: analysis.timestamp, speed: continuous ? step / elapsed : 0 });
+      paths.set(player.trackId, points);
+    }
+  }
+
+  const ball: MovementPoint3D[] = [
+    ...hits
+      .filter(hit => hit.playerPosition)
+      .map(hit => ({ position: hit.playerPosition!, timestamp: hit.timestamp, speed: hit.speed ?? 0 })),
+    ...bounces.map(bounce => ({ position: bounce.court, timestamp: bounce.timestamp, speed: 0 })),
+  ]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(({ position: [x, z], timestamp, speed }) => ({ x, y: 0, z, timestamp, speed }));
+
+  if (paths.size === 0 && ball.length === 0) return null;
+
+  const judged = hits.filter(hit => hit.successful !== undefined && hit.successful !== null);
+  return {
+    players: [...paths].map(([trackId, points]) => ({ trackId, points })),
+    ball,
+    insights: {
+      averageSpeed: time > 0 ? (distance / time) * 3.6 : null,
+      courtCoverage: coveredArea(Object.values(courtHeatmaps.byPlayer)),
+      successRate: judged.length > 0 ? (judged.filter(hit => hit.successful).length / judged.length) * 100 : null,
+    },
+  };
+};
@@ -0,0 +1,58 @@
+const DATABASE_NAME = 'tennis-insight';
+const DATABASE_VERSION = 3;
+
+// Todos os stores usam `key` como chave primária
+export type StoreName = 'checkpoints' | 'checkpointFrames' | 'sessions' | 'sessionData';
+
+let connection: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      // Cada versão acrescenta stores; os dados das anteriores continuam, exceto
+      // os checkpoints de antes da versão 3, que guardavam as análises no registro
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion > 0 && event.oldVersion < 3 && db.objectStoreNames.contains('checkpoints')) {
+          request.transaction.objectStore('checkpoints').clear();
+        }
+        for (const store of ['checkpoints', 'checkpointFrames', 'sessions', 'sessionData'] satisfies StoreName[]) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'key' });
+          }
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Outra aba abrindo uma versão mais nova: libera o banco para a atualização
+        db.onversionchange = () => {
+          db.close();
+          connection = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        connection = null;
+        reject(request.error ?? new Error('Não foi possível abrir o banco local'));
+      };
+    });
+  }
+  return connection;
+};
+
+// Uma operação em um store, resolvida quando a transação termina
+export const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = operation(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transação do banco local abortada'));
+  });
+};
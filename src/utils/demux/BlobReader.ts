@@ -0,0 +1,30 @@
+/**
+ * Leitura aleatória de um Blob com uma janela em memória. Os demuxers leem o
+ * arquivo quase sempre em ordem crescente, então uma janela grande evita uma
+ * leitura assíncrona por amostra sem carregar o vídeo inteiro.
+ */
+export class BlobReader {
+  private window = new Uint8Array(0);
+  private windowStart = 0;
+
+  constructor(private blob: Blob, private windowSize = 4 * 1024 * 1024) {}
+
+  get size(): number {
+    return this.blob.size;
+  }
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    const end = Math.min(this.blob.size, offset + length);
+    if (offset < this.windowStart || end > this.windowStart + this.window.length) {
+      const windowEnd = Math.min(this.blob.size, offset + Math.max(length, this.windowSize));
+      this.window = new Uint8Array(await this.blob.slice(offset, windowEnd).arrayBuffer());
+      this.windowStart = offset;
+    }
+    return this.window.subarray(offset - this.windowStart, end - this.windowStart);
+  }
+
+  // Cópia independente da janela, para entregar ao decodificador
+  async readCopy(offset: number, length: number): Promise<Uint8Array> {
+    return (await this.read(offset, length)).slice();
+  }
+}
@@ -0,0 +1,22 @@
+import { BlobReader } from './BlobReader';
+import { demuxMp4 } from './mp4';
+import { demuxWebm } from './webm';
+import { DemuxedVideo } from './types';
+
+export type { DemuxedVideo, EncodedSample } from './types';
+export { BlobReader } from './BlobReader';
+
+// Identifica o contêiner pelos primeiros bytes: ftyp (MP4/MOV) ou cabeçalho EBML (WebM)
+export const demuxVideo = async (blob: Blob): Promise<DemuxedVideo> => {
+  const reader = new BlobReader(blob);
+  const head = await reader.read(0, 12);
+  const type = String.fromCharCode(...head.subarray(4, 8));
+
+  if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) {
+    return demuxWebm(reader);
+  }
+  if (['ftyp', 'moov', 'mdat', 'free', 'wide'].includes(type)) {
+    return demuxMp4(reader);
+  }
+  throw new Error('Contêiner de vídeo não reconhecido');
+};
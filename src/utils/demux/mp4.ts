@@ -0,0 +1,289 @@
+import { BlobReader } from './BlobReader';
+import { DemuxedVideo, EncodedSample } from './types';
+
+interface Box {
+  type: string;
+  start: number;      // início do cabeçalho, relativo ao buffer
+  dataStart: number;  // início do conteúdo
+  end: number;
+}
+
+const fourcc = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const hex2 = (value: number) => value.toString(16).padStart(2, '0');
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+// Filhos diretos de uma caixa (ou do buffer inteiro)
+const childBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = fourcc(view, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+    boxes.push({ type, start: offset, dataStart: offset + header, end: Math.min(end, offset + size) });
+    offset += size;
+  }
+  return boxes;
+};
+
+const findBox = (view: DataView, parent: Box, ...path: string[]): Box | null => {
+  let current: Box | null = parent;
+  for (const type of path) {
+    if (!current) return null;
+    current = childBoxes(view, current.dataStart, current.end).find(box => box.type === type) ?? null;
+  }
+  return current;
+};
+
+// Percorre as caixas do topo do arquivo lendo só os cabeçalhos, até achar a moov
+const readMoov = async (reader: BlobReader): Promise<DataView> => {
+  let offset = 0;
+  while (offset + 8 <= reader.size) {
+    const header = await reader.read(offset, 16);
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    let size = view.getUint32(0);
+    const type = fourcc(view, 4);
+    if (size === 1) size = Number(view.getBigUint64(8));
+    else if (size === 0) size = reader.size - offset;
+    if (size < 8) break;
+
+    if (type === 'moov') {
+      const moov = await reader.readCopy(offset, size);
+      return new DataView(moov.buffer);
+    }
+    offset += size;
+  }
+  throw new Error('MP4 sem caixa moov');
+};
+
+const avcCodec = (type: string, config: DataView, box: Box) =>
+  `${type}.${hex2(config.getUint8(box.dataStart + 1))}${hex2(config.getUint8(box.dataStart + 2))}${hex2(config.getUint8(box.dataStart + 3))}`;
+
+// hvc1.<espaço><perfil>.<compatibilidade invertida>.<tier><nível>.<restrições>
+const hevcCodec = (type: string, view: DataView, box: Box) => {
+  const offset = box.dataStart;
+  const profileByte = view.getUint8(offset + 1);
+  const space = ['', 'A', 'B', 'C'][profileByte >> 6];
+  const tier = (profileByte >> 5) & 1 ? 'H' : 'L';
+  const profile = profileByte & 0x1f;
+
+  let compatibility = view.getUint32(offset + 2);
+  let reversed = 0;
+  for (let i = 0; i < 32; i++) {
+    reversed = (reversed << 1) | (compatibility & 1);
+    compatibility >>>= 1;
+  }
+
+  const constraints: number[] = [];
+  for (let i = 0; i < 6; i++) constraints.push(view.getUint8(offset + 6 + i));
+  while (constraints.length > 0 && constraints[constraints.length - 1] === 0) constraints.pop();
+
+  const level = view.getUint8(offset + 12);
+  const suffix = constraints.map(byte => `.${byte.toString(16).toUpperCase()}`).join('');
+  return `${type}.${space}${profile}.${(reversed >>> 0).toString(16).toUpperCase()}.${tier}${level}${suffix}`;
+};
+
+const vp9Codec = (view: DataView, box: Box) => {
+  // vpcC é FullBox: versão e flags antes dos campos
+  const offset = box.dataStart + 4;
+  const profile = view.getUint8(offset);
+  const level = view.getUint8(offset + 1);
+  const bitDepth = view.getUint8(offset + 2) >> 4;
+  return `vp09.${pad2(profile)}.${pad2(level)}.${pad2(bitDepth)}`;
+};
+
+export const av1CodecFromConfig = (bytes: Uint8Array) => {
+  const profile = bytes[1] >> 5;
+  const level = bytes[1] & 0x1f;
+  const tier = bytes[2] >> 7 ? 'H' : 'M';
+  const highBitDepth = (bytes[2] >> 6) & 1;
+  const twelveBit = (bytes[2] >> 5) & 1;
+  const bitDepth = highBitDepth ? (twelveBit ? 12 : 10) : 8;
+  return `av01.${profile}.${pad2(level)}${tier}.${pad2(bitDepth)}`;
+};
+
+const boxBytes = (view: DataView, box: Box) =>
+  new Uint8Array(view.buffer, view.byteOffset + box.dataStart, box.end - box.dataStart).slice();
+
+// Entrada de amostra visual: cabeçalho de 8 bytes + 78 bytes de campos fixos antes das caixas filhas
+const VISUAL_SAMPLE_ENTRY_SIZE = 8 + 78;
+
+const parseSampleEntry = (view: DataView, stsd: Box) => {
+  // stsd é FullBox com contagem de entradas; usa a primeira
+  const [entry] = childBoxes(view, stsd.dataStart + 8, stsd.end);
+  if (!entry) throw new Error('MP4 sem descrição de amostra de vídeo');
+
+  const width = view.getUint16(entry.start + 32);
+  const height = view.getUint16(entry.start + 34);
+  const children = childBoxes(view, entry.start + VISUAL_SAMPLE_ENTRY_SIZE, entry.end);
+  const child = (type: string) => children.find(box => box.type === type);
+
+  let codec: string;
+  let description: Uint8Array | undefined;
+  switch (entry.type) {
+    case 'avc1':
+    case 'avc3': {
+      const avcC = child('avcC');
+      if (!avcC) throw new Error('MP4 H.264 sem avcC');
+      codec = avcCodec(entry.type, view, avcC);
+      description = boxBytes(view, avcC);
+      break;
+    }
+    case 'hvc1':
+    case 'hev1': {
+      const hvcC = child('hvcC');
+      if (!hvcC) throw new Error('MP4 H.265 sem hvcC');
+      codec = hevcCodec(entry.type, view, hvcC);
+      description = boxBytes(view, hvcC);
+      break;
+    }
+    case 'vp09': {
+      const vpcC = child('vpcC');
+      codec = vpcC ? vp9Codec(view, vpcC) : 'vp09.00.10.08';
+      break;
+    }
+    case 'av01': {
+      const av1C = child('av1C');
+      codec = av1C ? av1CodecFromConfig(boxBytes(view, av1C)) : 'av01.0.08M.08';
+      break;
+    }
+    default:
+      throw new Error(`Codec MP4 não suportado: ${entry.type}`);
+  }
+
+  return { codec, description, width, height };
+};
+
+const timescaleOf = (view: DataView, mdhd: Box) => {
+  const version = view.getUint8(mdhd.dataStart);
+  return view.getUint32(mdhd.dataStart + (version === 1 ? 20 : 12));
+};
+
+/**
+ * Lê a tabela de amostras da primeira trilha de vídeo de um MP4/MOV
+ * (stts, ctts, stss, stsc, stsz e stco/co64). MP4 fragmentado não é suportado.
+ */
+export const demuxMp4 = async (reader: BlobReader): Promise<DemuxedVideo> => {
+  const view = await readMoov(reader);
+  const moov: Box = { type: 'moov', start: 0, dataStart: 8, end: view.byteLength };
+
+  const track = childBoxes(view, moov.dataStart, moov.end)
+    .filter(box => box.type === 'trak')
+    .find(trak => {
+      const hdlr = findBox(view, trak, 'mdia', 'hdlr');
+      return hdlr !== null && fourcc(view, hdlr.dataStart + 8) === 'vide';
+    });
+  if (!track) throw new Error('MP4 sem trilha de vídeo');
+
+  const mdhd = findBox(view, track, 'mdia', 'mdhd');
+  const stbl = findBox(view, track, 'mdia', 'minf', 'stbl');
+  if (!mdhd || !stbl) throw new Error('Trilha de vídeo MP4 incompleta');
+  const timescale = timescaleOf(view, mdhd);
+
+  const table = (type: string) => findBox(view, stbl, type);
+  const stsd = table('stsd');
+  const stts = table('stts');
+  const stsc = table('stsc');
+  const stsz = table('stsz');
+  const chunkOffsets = table('stco') ?? table('co64');
+  if (!stsd || !stts || !stsc || !stsz || !chunkOffsets) throw new Error('Tabela de amostras MP4 incompleta');
+
+  const { codec, description, width, height } = parseSampleEntry(view, stsd);
+
+  // Tamanhos
+  const fixedSize = view.getUint32(stsz.dataStart + 4);
+  const sampleCount = view.getUint32(stsz.dataStart + 8);
+  if (sampleCount === 0) throw new Error('MP4 fragmentado não é suportado');
+  const sizes = Array.from({ length: sampleCount }, (_, i) =>
+    fixedSize !== 0 ? fixedSize : view.getUint32(stsz.dataStart + 12 + i * 4)
+  );
+
+  // Tempos de decodificação
+  const decodeTimes: number[] = [];
+  const durations: number[] = [];
+  let time = 0;
+  const sttsCount = view.getUint32(stts.dataStart + 4);
+  for (let i = 0; i < sttsCount; i++) {
+    const count = view.getUint32(stts.dataStart + 8 + i * 8);
+    const delta = view.getUint32(stts.dataStart + 12 + i * 8);
+    for (let j = 0; j < count; j++) {
+      decodeTimes.push(time);
+      durations.push(delta);
+      time += delta;
+    }
+  }
+
+  // Deslocamentos de composição (quadros B)
+  const compositionOffsets = new Array(sampleCount).fill(0);
+  const ctts = table('ctts');
+  if (ctts) {
+    const version = view.getUint8(ctts.dataStart);
+    const count = view.getUint32(ctts.dataStart + 4);
+    let sample = 0;
+    for (let i = 0; i < count; i++) {
+      const samples = view.getUint32(ctts.dataStart + 8 + i * 8);
+      const offset = version === 1 ? view.getInt32(ctts.dataStart + 12 + i * 8) : view.getUint32(ctts.dataStart + 12 + i * 8);
+      for (let j = 0; j < samples && sample < sampleCount; j++) compositionOffsets[sample++] = offset;
+    }
+  }
+
+  // Quadros-chave; sem stss todas as amostras são chave
+  let keyframes: Set<number> | null = null;
+  const stss = table('stss');
+  if (stss) {
+    keyframes = new Set();
+    const count = view.getUint32(stss.dataStart + 4);
+    for (let i = 0; i < count; i++) keyframes.add(view.getUint32(stss.dataStart + 8 + i * 4) - 1);
+  }
+
+  // Posições: amostras por chunk (stsc) sobre os offsets dos chunks
+  const is64 = chunkOffsets.type === 'co64';
+  const chunkCount = view.getUint32(chunkOffsets.dataStart + 4);
+  const chunkOffset = (chunk: number) =>
+    is64
+      ? Number(view.getBigUint64(chunkOffsets.dataStart + 8 + chunk * 8))
+      : view.getUint32(chunkOffsets.dataStart + 8 + chunk * 4);
+
+  const stscCount = view.getUint32(stsc.dataStart + 4);
+  const stscEntry = (i: number) => ({
+    firstChunk: view.getUint32(stsc.dataStart + 8 + i * 12) - 1,
+    samplesPerChunk: view.getUint32(stsc.dataStart + 12 + i * 12),
+  });
+
+  const samples: EncodedSample[] = [];
+  let sample = 0;
+  for (let entry = 0; entry < stscCount; entry++) {
+    const { firstChunk, samplesPerChunk } = stscEntry(entry);
+    const lastChunk = entry + 1 < stscCount ? stscEntry(entry + 1).firstChunk : chunkCount;
+    for (let chunk = firstChunk; chunk < lastChunk; chunk++) {
+      let offset = chunkOffset(chunk);
+      for (let i = 0; i < samplesPerChunk && sample < sampleCount; i++, sample++) {
+        samples.push({
+          offset,
+          size: sizes[sample],
+          timestamp: ((decodeTimes[sample] + compositionOffsets[sample]) * 1e6) / timescale,
+          duration: (durations[sample] * 1e6) / timescale,
+          keyframe: keyframes ? keyframes.has(sample) : true,
+        });
+        offset += sizes[sample];
+      }
+    }
+  }
+
+  return {
+    container: 'mp4',
+    config: { codec, description, codedWidth: width, codedHeight: height },
+    width,
+    height,
+    samples,
+  };
+};
@@ -0,0 +1,17 @@
+// Uma amostra codificada (um frame) localizada dentro do arquivo
+export interface EncodedSample {
+  offset: number;       // bytes desde o início do arquivo
+  size: number;
+  timestamp: number;    // tempo de apresentação, em microssegundos
+  duration: number;     // microssegundos; 0 quando o contêiner não informa
+  keyframe: boolean;
+}
+
+// Trilha de vídeo pronta para o VideoDecoder: configuração e amostras em ordem de decodificação
+export interface DemuxedVideo {
+  container: 'mp4' | 'webm';
+  config: VideoDecoderConfig;
+  width: number;
+  height: number;
+  samples: EncodedSample[];
+}
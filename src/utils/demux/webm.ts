@@ -0,0 +1,195 @@
+import { BlobReader } from './BlobReader';
+import { av1CodecFromConfig } from './mp4';
+import { DemuxedVideo, EncodedSample } from './types';
+
+// IDs EBML/Matroska usados aqui
+const ID = {
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackNumber: 0xd7,
+  trackType: 0x83,
+  codecId: 0x86,
+  codecPrivate: 0x63a2,
+  video: 0xe0,
+  pixelWidth: 0xb0,
+  pixelHeight: 0xba,
+  cluster: 0x1f43b675,
+  clusterTimecode: 0xe7,
+  simpleBlock: 0xa3,
+  blockGroup: 0xa0,
+  block: 0xa1,
+  referenceBlock: 0xfb,
+};
+
+interface ElementHeader {
+  id: number;
+  dataStart: number;
+  size: number | null; // null: tamanho desconhecido (gravações ao vivo, MediaRecorder)
+}
+
+// Inteiro de tamanho variável: o número de zeros à esquerda do primeiro byte dá o comprimento
+const readVint = (bytes: Uint8Array, offset: number, keepMarker: boolean) => {
+  const first = bytes[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8) throw new Error('WebM com inteiro EBML inválido');
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    if (bytes[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+};
+
+const readHeader = async (reader: BlobReader, offset: number): Promise<ElementHeader> => {
+  const bytes = await reader.read(offset, 12);
+  const id = readVint(bytes, 0, true);
+  const size = readVint(bytes, id.length, false);
+  return { id: id.value, dataStart: offset + id.length + size.length, size: size.unknown ? null : size.value };
+};
+
+const readUint = (bytes: Uint8Array) => bytes.reduce((value, byte) => value * 256 + byte, 0);
+
+// Filhos de um elemento mestre já carregado na memória
+const children = (bytes: Uint8Array) => {
+  const elements: { id: number; data: Uint8Array }[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true);
+    const size = readVint(bytes, offset + id.length, false);
+    const start = offset + id.length + size.length;
+    elements.push({ id: id.value, data: bytes.subarray(start, start + size.value) });
+    offset = start + size.value;
+  }
+  return elements;
+};
+
+interface VideoTrack {
+  number: number;
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const parseVideoTrack = (tracks: Uint8Array): VideoTrack | null => {
+  for (const entry of children(tracks)) {
+    if (entry.id !== ID.trackEntry) continue;
+    const fields = children(entry.data);
+    const field = (id: number) => fields.find(element => element.id === id)?.data;
+    if (readUint(field(ID.trackType) ?? new Uint8Array()) !== 1) continue;
+
+    const video = children(field(ID.video) ?? new Uint8Array());
+    const dimension = (id: number) => readUint(video.find(element => element.id === id)?.data ?? new Uint8Array());
+    return {
+      number: readUint(field(ID.trackNumber)!),
+      codecId: new TextDecoder().decode(field(ID.codecId)),
+      codecPrivate: field(ID.codecPrivate)?.slice(),
+      width: dimension(ID.pixelWidth),
+      height: dimension(ID.pixelHeight),
+    };
+  }
+  return null;
+};
+
+const decoderConfig = (track: VideoTrack): VideoDecoderConfig => {
+  const base = { codedWidth: track.width, codedHeight: track.height };
+  switch (track.codecId) {
+    case 'V_VP8':
+      return { ...base, codec: 'vp8' };
+    case 'V_VP9':
+      return { ...base, codec: 'vp09.00.10.08' };
+    case 'V_AV1':
+      return { ...base, codec: track.codecPrivate ? av1CodecFromConfig(track.codecPrivate) : 'av01.0.08M.08' };
+    case 'V_MPEG4/ISO/AVC': {
+      const avcC = track.codecPrivate;
+      if (!avcC) throw new Error('WebM H.264 sem CodecPrivate');
+      const hex = (byte: number) => byte.toString(16).padStart(2, '0');
+      return { ...base, codec: `avc1.${hex(avcC[1])}${hex(avcC[2])}${hex(avcC[3])}`, description: avcC };
+    }
+    default:
+      throw new Error(`Codec WebM não suportado: ${track.codecId}`);
+  }
+};
+
+/**
+ * Percorre o Segment de um WebM elemento a elemento, entrando nos Clusters e
+ * BlockGroups sem carregá-los inteiros, o que também funciona com tamanhos
+ * desconhecidos. Só a posição de cada bloco da trilha de vídeo é guardada.
+ */
+export const demuxWebm = async (reader: BlobReader): Promise<DemuxedVideo> => {
+  // Cabeçalho EBML, depois o Segment
+  const ebml = await readHeader(reader, 0);
+  const segment = await readHeader(reader, ebml.dataStart + (ebml.size ?? 0));
+  if (segment.id !== ID.segment) throw new Error('WebM sem Segment');
+  const segmentEnd = segment.size === null ? reader.size : Math.min(reader.size, segment.dataStart + segment.size);
+
+  let timecodeScale = 1_000_000; // nanossegundos por unidade de timecode
+  let track: VideoTrack | null = null;
+  let clusterTimecode = 0;
+  let lastBlockIsVideo = false;
+  const samples: EncodedSample[] = [];
+
+  let offset = segment.dataStart;
+  while (offset < segmentEnd) {
+    const header = await readHeader(reader, offset);
+    const { id, dataStart, size } = header;
+
+    // Mestres percorridos por dentro
+    if (id === ID.cluster || id === ID.blockGroup) {
+      offset = dataStart;
+      continue;
+    }
+    if (size === null) throw new Error('WebM com elemento de tamanho desconhecido fora de um Cluster');
+    const dataEnd = dataStart + size;
+
+    if (id === ID.info) {
+      const info = children(await reader.readCopy(dataStart, size));
+      const scale = info.find(element => element.id === ID.timecodeScale);
+      if (scale) timecodeScale = readUint(scale.data);
+    } else if (id === ID.tracks) {
+      track = parseVideoTrack(await reader.readCopy(dataStart, size));
+      if (!track) throw new Error('WebM sem trilha de vídeo');
+    } else if (id === ID.clusterTimecode) {
+      clusterTimecode = readUint(await reader.readCopy(dataStart, size));
+    } else if ((id === ID.simpleBlock || id === ID.block) && track) {
+      const head = await reader.read(dataStart, Math.min(size, 12));
+      const trackNumber = readVint(head, 0, false);
+      lastBlockIsVideo = trackNumber.value === track.number;
+      if (lastBlockIsVideo) {
+        const relative = (head[trackNumber.length] << 24 >> 16) | head[trackNumber.length + 1];
+        const flags = head[trackNumber.length + 2];
+        if (flags & 0x06) throw new Error('WebM com lacing de vídeo não é suportado');
+        const headerLength = trackNumber.length + 3;
+        samples.push({
+          offset: dataStart + headerLength,
+          size: size - headerLength,
+          timestamp: ((clusterTimecode + relative) * timecodeScale) / 1000,
+          duration: 0,
+          // Em BlockGroup o bloco é chave até aparecer um ReferenceBlock
+          keyframe: id === ID.simpleBlock ? (flags & 0x80) !== 0 : true,
+        });
+      }
+    } else if (id === ID.referenceBlock && lastBlockIsVideo) {
+      samples[samples.length - 1].keyframe = false;
+    }
+
+    offset = dataEnd;
+  }
+
+  if (!track) throw new Error('WebM sem trilha de vídeo');
+  if (samples.length === 0) throw new Error('WebM sem frames de vídeo');
+
+  return {
+    container: 'webm',
+    config: decoderConfig(track),
+    width: track.width,
+    height: track.height,
+    samples,
+  };
+};
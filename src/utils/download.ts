@@ -0,0 +1,15 @@
+// Nome de arquivo a partir do título do vídeo, sem pasta, extensão nem caracteres problemáticos
+export const fileBaseName = (title: string, fallback: string) => {
+  const base = title.split(/[\\/?#]/).filter(Boolean).pop()?.replace(/\.[^.]+$/, '') ?? '';
+  return base.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || fallback;
+};
+
+// Baixa um Blob gerado no navegador; a URL é liberada depois que o download começa
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
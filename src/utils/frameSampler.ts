@@ -0,0 +1,113 @@
+import { TennisAnalysis } from './VideoProcessor';
+
+// full: todos os frames; stride: um a cada N; adaptive: denso nos pontos, esparso nas pausas
+export type SamplingMode = 'full' | 'stride' | 'adaptive';
+
+export interface SamplingSettings {
+  mode: SamplingMode;
+  stride: number;        // passo fixo do modo stride
+  denseStride: number;   // passo do modo adaptativo com bola em jogo
+  sparseStride: number;  // passo do modo adaptativo com a cena parada
+}
+
+export const DEFAULT_SAMPLING: SamplingSettings = {
+  mode: 'stride',
+  stride: 5,
+  denseStride: 1,
+  sparseStride: 15,
+};
+
+const FALLBACK_FPS = 30;
+const STANDARD_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60, 100, 119.88, 120, 240];
+
+// Arredonda para a taxa padrão mais próxima quando a medida está a menos de 1% dela
+export const snapFrameRate = (fps: number): number => {
+  const nearest = STANDARD_RATES.reduce((best, rate) => (Math.abs(rate - fps) < Math.abs(best - fps) ? rate : best));
+  return Math.abs(nearest - fps) / nearest < 0.01 ? nearest : fps;
+};
+
+/**
+ * Mede a taxa de quadros real do vídeo tocando alguns frames sem som e lendo
+ * o mediaTime de cada um pelo requestVideoFrameCallback. Sem suporte à API,
+ * ou se a medida não se completar, assume 30 fps.
+ */
+export const measureFrameRate = async (video: HTMLVideoElement, samples = 12, timeoutMs = 3000): Promise<number> => {
+  if (!('requestVideoFrameCallback' in video)) {
+    console.warn('requestVideoFrameCallback indisponível; assumindo 30 fps');
+    return FALLBACK_FPS;
+  }
+
+  const mediaTimes: number[] = [];
+  const startTime = video.currentTime;
+  video.muted = true;
+
+  const measured = await new Promise<boolean>(resolve => {
+    const timeout = setTimeout(() => resolve(false), timeoutMs);
+    const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      mediaTimes.push(metadata.mediaTime);
+      if (mediaTimes.length >= samples) {
+        clearTimeout(timeout);
+        resolve(true);
+        return;
+      }
+      video.requestVideoFrameCallback(onFrame);
+    };
+    video.requestVideoFrameCallback(onFrame);
+    video.play().catch(() => {
+      clearTimeout(timeout);
+      resolve(false);
+    });
+  });
+
+  video.pause();
+  video.currentTime = startTime;
+
+  // Diferenças entre frames consecutivos; frames perdidos na reprodução aparecem como múltiplos
+  const deltas = mediaTimes
+    .slice(1)
+    .map((time, index) => time - mediaTimes[index])
+    .filter(delta => delta > 0)
+    .sort((a, b) => a - b);
+  if (!measured || deltas.length === 0) {
+    console.warn('Não foi possível medir a taxa de quadros; assumindo 30 fps');
+    return FALLBACK_FPS;
+  }
+
+  return snapFrameRate(1 / deltas[0]);
+};
+
+/**
+ * Decide qual o próximo frame da fonte a analisar. No modo adaptativo a
+ * decisão usa o frame que acabou de ser analisado: bola rastreada ou cena em
+ * movimento mantêm a amostragem densa; cena parada e sem bola passa a saltar.
+ */
+export class FrameSampler {
+  private stillThreshold = 1.5; // variação média de luminância por frame abaixo da qual a cena está parada
+
+  constructor(private settings: SamplingSettings = DEFAULT_SAMPLING) {}
+
+  nextFrame(sourceFrame: number, analysis: TennisAnalysis | null): number {
+    return sourceFrame + this.step(analysis);
+  }
+
+  private step(analysis: TennisAnalysis | null): number {
+    switch (this.settings.mode) {
+      case 'full':
+        return 1;
+      case 'stride':
+        return Math.max(1, this.settings.stride);
+      case 'adaptive':
+        return this.isLive(analysis) ? Math.max(1, this.settings.denseStride) : Math.max(1, this.settings.sparseStride);
+    }
+  }
+
+  private isLive(analysis: TennisAnalysis | null): boolean {
+    // Sem análise (frame com erro) é mais seguro continuar denso
+    if (!analysis) return true;
+    // Fora da câmera principal nada é rastreado: basta amostrar para achar a volta ao jogo
+    if (analysis.scene !== 'play') return false;
+    const { status } = analysis.ballPosition;
+    if (status === 'detected' || status === 'motion' || status === 'predicted') return true;
+    return analysis.sceneMotion > this.stillThreshold;
+  }
+}
@@ -0,0 +1,101 @@
+import { Point2D } from './homography';
+
+// Posições em pixels do vídeo; os mapas no plano da quadra ficam em CourtHeatmap
+export interface HeatmapSeries {
+  id: string;
+  kind: 'player' | 'ball';
+  trackId: number | null;
+  points: Point2D[];
+}
+
+export type HeatmapScale = 'linear' | 'log';
+
+// Grade de densidade: cada ponto soma 1 na célula onde cai
+export const accumulateGrid = (
+  points: Point2D[],
+  columns: number,
+  rows: number,
+  toCell: (point: Point2D) => Point2D
+): Float32Array => {
+  const grid = new Float32Array(columns * rows);
+  for (const point of points) {
+    const [x, y] = toCell(point);
+    const col = Math.floor(x);
+    const row = Math.floor(y);
+    if (col >= 0 && col < columns && row >= 0 && row < rows) {
+      grid[row * columns + col] += 1;
+    }
+  }
+  return grid;
+};
+
+// Desfoque gaussiano separável (horizontal e depois vertical), sigma em células
+export const gaussianBlur = (grid: Float32Array, columns: number, rows: number, sigma: number): Float32Array => {
+  if (sigma <= 0) return grid.slice();
+
+  const radius = Math.ceil(sigma * 3);
+  const kernel = Array.from({ length: radius * 2 + 1 }, (_, i) => Math.exp(-((i - radius) ** 2) / (2 * sigma * sigma)));
+  const total = kernel.reduce((sum, weight) => sum + weight, 0);
+  const weights = kernel.map(weight => weight / total);
+
+  const pass = (source: Float32Array, horizontal: boolean) => {
+    const result = new Float32Array(source.length);
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const c = horizontal ? col + k : col;
+          const r = horizontal ? row : row + k;
+          if (c < 0 || c >= columns || r < 0 || r >= rows) continue;
+          sum += source[r * columns + c] * weights[k + radius];
+        }
+        result[row * columns + col] = sum;
+      }
+    }
+    return result;
+  };
+
+  return pass(pass(grid, true), false);
+};
+
+// Pontos de controle do mapa de cores: azul frio -> verde -> amarelo -> vermelho
+const COLOR_STOPS: [number, [number, number, number]][] = [
+  [0, [30, 60, 200]],
+  [0.35, [40, 190, 120]],
+  [0.65, [250, 220, 50]],
+  [1, [220, 40, 30]],
+];
+
+export const heatColor = (value: number): [number, number, number] => {
+  const t = Math.min(1, Math.max(0, value));
+  for (let i = 1; i < COLOR_STOPS.length; i++) {
+    const [end, endColor] = COLOR_STOPS[i];
+    if (t > end) continue;
+    const [start, startColor] = COLOR_STOPS[i - 1];
+    const f = (t - start) / (end - start || 1);
+    return startColor.map((channel, c) => Math.round(channel + (endColor[c] - channel) * f)) as [number, number, number];
+  }
+  return COLOR_STOPS[COLOR_STOPS.length - 1][1];
+};
+
+/**
+ * Converte a densidade em pixels RGBA. A transparência acompanha a densidade,
+ * para que as regiões vazias deixem ver a quadra ou o frame por baixo.
+ */
+export const colorizeDensity = (density: Float32Array, scale: HeatmapScale): Uint8ClampedArray<ArrayBuffer> => {
+  const transform = scale === 'log' ? (value: number) => Math.log1p(value) : (value: number) => value;
+  const max = density.reduce((best, value) => Math.max(best, transform(value)), 0);
+  const pixels = new Uint8ClampedArray(new ArrayBuffer(density.length * 4));
+  if (max <= 0) return pixels;
+
+  for (let i = 0; i < density.length; i++) {
+    const value = transform(density[i]) / max;
+    if (value < 0.02) continue;
+    const [r, g, b] = heatColor(value);
+    pixels[i * 4] = r;
+    pixels[i * 4 + 1] = g;
+    pixels[i * 4 + 2] = b;
+    pixels[i * 4 + 3] = Math.round(255 * Math.min(1, value * 1.5));
+  }
+  return pixels;
+};
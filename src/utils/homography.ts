@@ -0,0 +1,127 @@
+// Homografia 3x3 em ordem row-major: [h11, h12, h13, h21, h22, h23, h31, h32, h33]
+export type Homography = number[];
+
+export type Point2D = [number, number];
+
+export const applyHomography = (h: Homography, [x, y]: Point2D): Point2D => {
+  const w = h[6] * x + h[7] * y + h[8];
+  return [
+    (h[0] * x + h[1] * y + h[2]) / w,
+    (h[3] * x + h[4] * y + h[5]) / w,
+  ];
+};
+
+export const multiplyHomography = (a: Homography, b: Homography): Homography => {
+  const result: Homography = Array(9).fill(0);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      for (let k = 0; k < 3; k++) {
+        result[row * 3 + col] += a[row * 3 + k] * b[k * 3 + col];
+      }
+    }
+  }
+  return result;
+};
+
+export const invertHomography = (h: Homography): Homography | null => {
+  const [a, b, c, d, e, f, g, i, j] = h;
+  const det = a * (e * j - f * i) - b * (d * j - f * g) + c * (d * i - e * g);
+  if (Math.abs(det) < 1e-12) return null;
+
+  const inv = [
+    e * j - f * i, c * i - b * j, b * f - c * e,
+    f * g - d * j, a * j - c * g, c * d - a * f,
+    d * i - e * g, b * g - a * i, a * e - b * d,
+  ];
+  return inv.map(value => value / det);
+};
+
+export const scaleHomography = (sx: number, sy: number): Homography => [sx, 0, 0, 0, sy, 0, 0, 0, 1];
+
+// Normalização de Hartley: centraliza os pontos e escala a distância média para √2
+const normalizationFor = (points: Point2D[]): Homography => {
+  const cx = points.reduce((sum, p) => sum + p[0], 0) / points.length;
+  const cy = points.reduce((sum, p) => sum + p[1], 0) / points.length;
+  const meanDistance = points.reduce((sum, p) => sum + Math.hypot(p[0] - cx, p[1] - cy), 0) / points.length;
+  const s = meanDistance > 0 ? Math.SQRT2 / meanDistance : 1;
+  return [s, 0, -s * cx, 0, s, -s * cy, 0, 0, 1];
+};
+
+// Resolve Ax = b por eliminação de Gauss com pivotamento parcial
+export const solveLinearSystem = (matrix: number[][], vector: number[]): number[] | null => {
+  const n = vector.length;
+  const m = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) {
+        m[row][k] -= factor * m[col][k];
+      }
+    }
+  }
+
+  const x = Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+};
+
+/**
+ * Estima a homografia que leva `source` em `destination` (DLT normalizado).
+ * Com mais de 4 correspondências o resultado é o ajuste de mínimos quadrados.
+ */
+export const computeHomography = (source: Point2D[], destination: Point2D[]): Homography | null => {
+  if (source.length < 4 || source.length !== destination.length) return null;
+
+  const tSource = normalizationFor(source);
+  const tDestination = normalizationFor(destination);
+  const src = source.map(p => applyHomography(tSource, p));
+  const dst = destination.map(p => applyHomography(tDestination, p));
+
+  // Equações normais (AᵀA)h = Aᵀb com h33 = 1
+  const ata = Array(8).fill(null).map(() => Array(8).fill(0));
+  const atb = Array(8).fill(0);
+  const addRow = (row: number[], value: number) => {
+    for (let i = 0; i < 8; i++) {
+      atb[i] += row[i] * value;
+      for (let j = 0; j < 8; j++) ata[i][j] += row[i] * row[j];
+    }
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const [x, y] = src[i];
+    const [u, v] = dst[i];
+    addRow([x, y, 1, 0, 0, 0, -u * x, -u * y], u);
+    addRow([0, 0, 0, x, y, 1, -v * x, -v * y], v);
+  }
+
+  const solution = solveLinearSystem(ata, atb);
+  if (!solution || solution.some(value => !Number.isFinite(value))) return null;
+
+  const normalized: Homography = [...solution, 1];
+  const inverseDestination = invertHomography(tDestination);
+  if (!inverseDestination) return null;
+
+  const h = multiplyHomography(inverseDestination, multiplyHomography(normalized, tSource));
+  return h.map(value => value / h[8]);
+};
+
+export const reprojectionError = (h: Homography, source: Point2D[], destination: Point2D[]): number => {
+  if (source.length === 0) return 0;
+  const total = source.reduce((sum, p, i) => {
+    const [x, y] = applyHomography(h, p);
+    return sum + Math.hypot(x - destination[i][0], y - destination[i][1]);
+  }, 0);
+  return total / source.length;
+};
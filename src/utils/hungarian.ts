@@ -0,0 +1,74 @@
+/**
+ * Atribuição de custo mínimo (algoritmo húngaro, O(n³)).
+ * Aceita matrizes retangulares e retorna, para cada linha, a coluna atribuída
+ * ou -1 quando a linha fica sem par ou o custo ultrapassa `maxCost`.
+ */
+export const solveAssignment = (cost: number[][], maxCost = Infinity): number[] => {
+  const rows = cost.length;
+  if (rows === 0) return [];
+  const cols = cost[0].length;
+  if (cols === 0) return Array(rows).fill(-1);
+
+  // Preencher até uma matriz quadrada com um custo alto para pares fictícios
+  const n = Math.max(rows, cols);
+  const padding = 1e9;
+  const a = (i: number, j: number) => (i < rows && j < cols ? cost[i][j] : padding);
+
+  const u = Array(n + 1).fill(0);
+  const v = Array(n + 1).fill(0);
+  const p = Array(n + 1).fill(0);
+  const way = Array(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = Array(n + 1).fill(Infinity);
+    const used = Array(n + 1).fill(false);
+
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const current = a(i0 - 1, j - 1) - u[i0] - v[j];
+        if (current < minv[j]) {
+          minv[j] = current;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment = Array(rows).fill(-1);
+  for (let j = 1; j <= n; j++) {
+    const row = p[j] - 1;
+    const col = j - 1;
+    if (row < rows && col < cols && cost[row][col] <= maxCost) {
+      assignment[row] = col;
+    }
+  }
+  return assignment;
+};
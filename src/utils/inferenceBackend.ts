@@ -0,0 +1,134 @@
+import { DataType, DeviceType, env } from '@huggingface/transformers';
+
+export type InferenceBackend = 'webgpu' | 'wasm-simd-threads' | 'wasm';
+
+export interface BackendCapabilities {
+  webgpu: boolean;
+  shaderF16: boolean;        // WebGPU com suporte a fp16 nos shaders
+  simd: boolean;
+  threads: boolean;          // SharedArrayBuffer disponível (página com isolamento de origem)
+  hardwareConcurrency: number;
+}
+
+export interface BackendFailure {
+  backend: InferenceBackend;
+  dtype: DataType;
+  error: string;
+}
+
+// O que foi negociado para um modelo, exibido ao usuário
+export interface BackendReport {
+  backend: InferenceBackend;
+  dtype: DataType;
+  capabilities: BackendCapabilities;
+  failures: BackendFailure[];
+}
+
+// Ordem de preferência: GPU, WASM com SIMD e threads, WASM simples
+export const BACKEND_CHAIN: InferenceBackend[] = ['webgpu', 'wasm-simd-threads', 'wasm'];
+
+export const BACKEND_LABELS: Record<InferenceBackend, string> = {
+  webgpu: 'WebGPU',
+  'wasm-simd-threads': 'WASM (SIMD + threads)',
+  wasm: 'WASM',
+};
+
+interface GpuNavigator {
+  gpu?: {
+    requestAdapter(): Promise<{ features: { has(feature: string): boolean } } | null>;
+  };
+}
+
+// Módulo WASM mínimo com uma instrução SIMD (i8x16.popcnt); só valida onde há SIMD
+const SIMD_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11,
+]);
+
+export const detectCapabilities = async (): Promise<BackendCapabilities> => {
+  let webgpu = false;
+  let shaderF16 = false;
+  try {
+    const adapter = await (navigator as Navigator & GpuNavigator).gpu?.requestAdapter();
+    webgpu = !!adapter;
+    shaderF16 = !!adapter?.features.has('shader-f16');
+  } catch {
+    webgpu = false;
+  }
+
+  let simd = false;
+  try {
+    simd = WebAssembly.validate(SIMD_PROBE);
+  } catch {
+    simd = false;
+  }
+
+  return {
+    webgpu,
+    shaderF16,
+    simd,
+    threads: typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true,
+    hardwareConcurrency: navigator.hardwareConcurrency ?? 1,
+  };
+};
+
+const isAvailable = (backend: InferenceBackend, capabilities: BackendCapabilities): boolean => {
+  switch (backend) {
+    case 'webgpu':
+      return capabilities.webgpu;
+    case 'wasm-simd-threads':
+      return capabilities.simd && capabilities.threads;
+    case 'wasm':
+      // Com threads o runtime WASM já nasce multithread; tentar de novo daria a mesma sessão
+      return !isAvailable('wasm-simd-threads', capabilities);
+  }
+};
+
+// Todos os pesos que dtypeFor pode escolher; o manifesto de modelos precisa ter o hash de cada um
+export const MODEL_DTYPES = ['fp32', 'fp16', 'q8'] as const satisfies readonly DataType[];
+export type ModelDataType = (typeof MODEL_DTYPES)[number];
+
+// fp16 só compensa na GPU com shader-f16; no WASM os pesos quantizados são os mais rápidos
+export const dtypeFor = (backend: InferenceBackend, capabilities: BackendCapabilities): ModelDataType => {
+  if (backend === 'webgpu') return capabilities.shaderF16 ? 'fp16' : 'fp32';
+  return 'q8';
+};
+
+let wasmThreadsConfigured = false;
+
+// O ONNX Runtime lê numThreads só ao iniciar o WASM, na primeira sessão; depois disso não adianta mudar
+const configureWasmThreads = (capabilities: BackendCapabilities) => {
+  const wasm = env.backends.onnx.wasm;
+  if (!wasm || wasmThreadsConfigured) return;
+  wasm.numThreads = isAvailable('wasm-simd-threads', capabilities) ? Math.min(4, capabilities.hardwareConcurrency) : 1;
+  wasmThreadsConfigured = true;
+};
+
+/**
+ * Tenta carregar um modelo em cada backend da cadeia, do mais rápido ao mais
+ * lento, e devolve o primeiro que funcionar junto com as falhas anteriores.
+ * Se nenhum funcionar, lança um erro: não há resultado sem modelo.
+ */
+export const loadWithFallback = async <T>(
+  load: (device: DeviceType, dtype: DataType) => Promise<T>,
+  capabilities: BackendCapabilities,
+  chain: InferenceBackend[] = BACKEND_CHAIN
+): Promise<{ model: T; report: BackendReport }> => {
+  const failures: BackendFailure[] = [];
+  configureWasmThreads(capabilities);
+
+  for (const backend of chain) {
+    if (!isAvailable(backend, capabilities)) continue;
+
+    const dtype = dtypeFor(backend, capabilities);
+    try {
+      const model = await load(backend === 'webgpu' ? 'webgpu' : 'wasm', dtype);
+      return { model, report: { backend, dtype, capabilities, failures } };
+    } catch (error) {
+      console.warn(`Backend ${backend} (${dtype}) falhou:`, error);
+      failures.push({ backend, dtype, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const details = failures.map(failure => `${BACKEND_LABELS[failure.backend]}: ${failure.error}`).join('; ');
+  throw new Error(`Nenhum backend de inferência disponível${details ? ` (${details})` : ''}`);
+};
@@ -0,0 +1,44 @@
+import { Rally } from './PointSegmenter';
+
+// Momento pedido no link da partida: ?t=83.4 (ou 1:23.4) ou ?rally=12
+export interface MatchMoment {
+  time: number | null;  // segundos do vídeo
+  rally: number | null; // número do ponto, como aparece na lista
+}
+
+// Aceita segundos ou mm:ss / hh:mm:ss, com decimais no último campo
+export const parseTimestamp = (value: string | null): number | null => {
+  if (!value) return null;
+  const parts = value.split(':').map(Number);
+  if (parts.length > 3 || parts.some(part => !Number.isFinite(part) || part < 0)) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+export const parseMatchMoment = (params: URLSearchParams): MatchMoment => {
+  const rally = Number(params.get('rally'));
+  return {
+    time: parseTimestamp(params.get('t')),
+    rally: Number.isInteger(rally) && rally > 0 ? rally : null,
+  };
+};
+
+// Um link leva a um ponto ou a um instante; o ponto tem prioridade
+export const matchPath = (key: string, moment: Partial<MatchMoment> = {}): string => {
+  const params = new URLSearchParams();
+  if (moment.rally != null) {
+    params.set('rally', String(moment.rally));
+  } else if (moment.time != null) {
+    params.set('t', moment.time.toFixed(1));
+  }
+  const query = params.toString();
+  return `/match/${encodeURIComponent(key)}${query ? `?${query}` : ''}`;
+};
+
+export const matchUrl = (key: string, moment: Partial<MatchMoment> = {}): string =>
+  new URL(matchPath(key, moment), window.location.origin).href;
+
+// Tempo do vídeo para o momento pedido; null quando o ponto não existe nesta partida
+export const resolveMomentTime = ({ time, rally }: MatchMoment, rallies: Rally[]): number | null => {
+  if (rally !== null) return rallies.find(r => r.index === rally)?.startTime ?? null;
+  return time;
+};
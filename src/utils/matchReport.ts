@@ -0,0 +1,441 @@
+import { jsPDF } from 'jspdf';
+import { POINT_OUTCOME_LABELS, SHOT_TYPE_LABELS } from '@/data/labels';
+import { VideoStats } from '@/workers/analysisProtocol';
+import { BounceEvent } from './BounceDetector';
+import { CourtHeatmaps, DEFAULT_COURT_GRID, SparseCourtGrid } from './CourtHeatmap';
+import { CourtCanvasLayout, courtCanvasSize, drawBounces, drawCourt, drawCourtDensity, drawCourtLines } from './courtCanvas';
+import { HitEvent } from './HitDetector';
+import { PointOutcome, Rally } from './PointSegmenter';
+import { SHOT_TYPES, ShotType, summarizeShotTypes } from './ShotClassifier';
+
+export type ReportLanguage = 'pt' | 'en';
+
+export interface ReportTemplate {
+  clubName: string;
+  logo: string | null; // data URL de uma imagem PNG ou JPEG
+  language: ReportLanguage;
+  coachNotes: string;
+}
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = { clubName: '', logo: null, language: 'pt', coachNotes: '' };
+
+const TEMPLATE_KEY = 'tennis-insight:report-template';
+
+export const loadReportTemplate = (): ReportTemplate => {
+  try {
+    const saved = localStorage.getItem(TEMPLATE_KEY);
+    return saved ? { ...DEFAULT_REPORT_TEMPLATE, ...JSON.parse(saved) } : DEFAULT_REPORT_TEMPLATE;
+  } catch {
+    return DEFAULT_REPORT_TEMPLATE;
+  }
+};
+
+// As observações do treinador são de cada partida e não ficam salvas
+export const saveReportTemplate = ({ clubName, logo, language }: ReportTemplate) => {
+  try {
+    localStorage.setItem(TEMPLATE_KEY, JSON.stringify({ clubName, logo, language }));
+  } catch (error) {
+    // Um logotipo grande pode estourar a cota do localStorage
+    console.warn('Não foi possível salvar o modelo do relatório:', error);
+  }
+};
+
+export interface MatchReportInput {
+  title: string;          // nome do arquivo ou URL do vídeo
+  analyzedAt: Date;
+  duration: number;       // segundos de vídeo cobertos pela análise
+  frameRate: number;
+  samples: number;        // amostras analisadas
+  stats: VideoStats;
+  hits: HitEvent[];
+  rallies: Rally[];
+  bounces: BounceEvent[];
+  courtHeatmaps: CourtHeatmaps;
+}
+
+const PT_TEXT = {
+  title: 'Relatório da partida',
+  generatedAt: 'Gerado em',
+  video: 'Vídeo',
+  duration: 'Duração analisada',
+  frameRate: 'Taxa de quadros',
+  samples: 'Amostras analisadas',
+  points: 'Pontos',
+  shots: 'Golpes',
+  summary: 'Resumo',
+  playerStats: 'Estatísticas por jogador',
+  player: (trackId: number) => `Jogador #${trackId}`,
+  pointsWon: 'Pontos ganhos',
+  winners: 'Winners',
+  errors: 'Erros',
+  aces: 'Aces',
+  doubleFaults: 'Duplas faltas',
+  averageSpeed: 'Vel. média (km/h)',
+  shotBreakdown: 'Golpes por tipo',
+  shotType: 'Tipo',
+  rallies: 'Pontos disputados',
+  start: 'Início',
+  length: 'Duração',
+  outcome: 'Desfecho',
+  pointWinner: 'Vencedor',
+  heatmaps: 'Mapas de calor',
+  bounceMap: 'Mapa de quiques',
+  coachNotes: 'Observações do treinador',
+  noData: 'Sem dados suficientes.',
+  page: (page: number, total: number) => `Página ${page} de ${total}`,
+  shotTypes: SHOT_TYPE_LABELS,
+  outcomes: POINT_OUTCOME_LABELS,
+  locale: 'pt-BR',
+};
+
+type ReportText = typeof PT_TEXT;
+
+const REPORT_TEXT: Record<ReportLanguage, ReportText> = {
+  pt: PT_TEXT,
+  en: {
+    title: 'Match report',
+    generatedAt: 'Generated on',
+    video: 'Video',
+    duration: 'Analyzed duration',
+    frameRate: 'Frame rate',
+    samples: 'Analyzed samples',
+    points: 'Points',
+    shots: 'Shots',
+    summary: 'Summary',
+    playerStats: 'Player statistics',
+    player: (trackId: number) => `Player #${trackId}`,
+    pointsWon: 'Points won',
+    winners: 'Winners',
+    errors: 'Errors',
+    aces: 'Aces',
+    doubleFaults: 'Double faults',
+    averageSpeed: 'Avg. speed (km/h)',
+    shotBreakdown: 'Shots by type',
+    shotType: 'Type',
+    rallies: 'Points played',
+    start: 'Start',
+    length: 'Length',
+    outcome: 'Outcome',
+    pointWinner: 'Winner',
+    heatmaps: 'Heatmaps',
+    bounceMap: 'Bounce map',
+    coachNotes: 'Coach notes',
+    noData: 'Not enough data.',
+    page: (page: number, total: number) => `Page ${page} of ${total}`,
+    shotTypes: {
+      serve: 'Serve',
+      forehand: 'Forehand',
+      backhand: 'Backhand',
+      volley: 'Volley',
+      smash: 'Smash',
+      lob: 'Lob',
+      drop: 'Drop shot',
+    },
+    outcomes: {
+      winner: 'Winner',
+      'forced-error': 'Forced error',
+      'unforced-error': 'Unforced error',
+      ace: 'Ace',
+      'double-fault': 'Double fault',
+      fault: 'Fault',
+      unknown: 'Undecided',
+    },
+    locale: 'en-US',
+  },
+};
+
+const PAGE_MARGIN = 15;   // mm
+const HEADER_HEIGHT = 22; // mm reservados para logotipo e título em cada página
+const ROW_HEIGHT = 6;
+const REPORT_LAYOUT: CourtCanvasLayout = { pixelsPerMeter: 16, margin: DEFAULT_COURT_GRID.margin };
+
+const ERROR_OUTCOMES: PointOutcome[] = ['forced-error', 'unforced-error', 'double-fault'];
+
+interface TableColumn {
+  title: string;
+  width: number; // fração da largura útil
+  align?: 'left' | 'right';
+}
+
+// Cursor vertical sobre o documento, abrindo páginas conforme o conteúdo cresce
+class ReportWriter {
+  readonly doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  private y = PAGE_MARGIN + HEADER_HEIGHT;
+
+  get width() {
+    return this.doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+  }
+
+  private get bottom() {
+    return this.doc.internal.pageSize.getHeight() - PAGE_MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.bottom) this.newPage();
+  }
+
+  private newPage() {
+    this.doc.addPage();
+    this.y = PAGE_MARGIN + HEADER_HEIGHT;
+  }
+
+  heading(text: string) {
+    this.ensureSpace(14);
+    this.y += 4;
+    this.doc.setFont('helvetica', 'bold').setFontSize(13).text(text, PAGE_MARGIN, this.y);
+    this.y += 7;
+  }
+
+  paragraph(text: string) {
+    this.doc.setFont('helvetica', 'normal').setFontSize(10);
+    for (const line of this.doc.splitTextToSize(text, this.width) as string[]) {
+      this.ensureSpace(5);
+      this.doc.text(line, PAGE_MARGIN, this.y);
+      this.y += 5;
+    }
+  }
+
+  // Pares rótulo/valor em duas colunas
+  facts(entries: [string, string][]) {
+    this.doc.setFontSize(10);
+    for (const [label, value] of entries) {
+      this.ensureSpace(ROW_HEIGHT);
+      this.doc.setFont('helvetica', 'bold').text(label, PAGE_MARGIN, this.y);
+      const [firstLine = ''] = this.doc.splitTextToSize(value, this.width * 0.6) as string[];
+      this.doc.setFont('helvetica', 'normal').text(firstLine, PAGE_MARGIN + this.width * 0.4, this.y);
+      this.y += ROW_HEIGHT;
+    }
+  }
+
+  // O cabeçalho da tabela se repete a cada quebra de página
+  table(columns: TableColumn[], rows: string[][]) {
+    const drawRow = (cells: string[], header: boolean) => {
+      this.doc.setFont('helvetica', header ? 'bold' : 'normal').setFontSize(9);
+      if (header) {
+        this.doc.setFillColor(235, 235, 235).rect(PAGE_MARGIN, this.y - 4.2, this.width, ROW_HEIGHT, 'F');
+      }
+      let x = PAGE_MARGIN;
+      cells.forEach((cell, index) => {
+        const { width, align = 'left' } = columns[index];
+        const columnWidth = width * this.width;
+        const text = this.doc.splitTextToSize(cell, columnWidth - 2)[0] ?? '';
+        if (align === 'right') this.doc.text(text, x + columnWidth - 1, this.y, { align: 'right' });
+        else this.doc.text(text, x + 1, this.y);
+        x += columnWidth;
+      });
+      this.y += ROW_HEIGHT;
+    };
+
+    this.ensureSpace(ROW_HEIGHT * 2);
+    drawRow(columns.map(column => column.title), true);
+    for (const row of rows) {
+      if (this.y + ROW_HEIGHT > this.bottom) {
+        this.newPage();
+        drawRow(columns.map(column => column.title), true);
+      }
+      drawRow(row, false);
+    }
+    this.y += 2;
+  }
+
+  // Imagens lado a lado, quebrando a linha quando não cabem
+  images(items: { caption: string; dataUrl: string; aspect: number }[], perRow = 2) {
+    const gap = 6;
+    const width = (this.width - gap * (perRow - 1)) / perRow;
+    for (let start = 0; start < items.length; start += perRow) {
+      const row = items.slice(start, start + perRow);
+      const height = Math.max(...row.map(item => width * item.aspect));
+      this.ensureSpace(height + 8);
+      row.forEach((item, index) => {
+        const x = PAGE_MARGIN + index * (width + gap);
+        this.doc.setFont('helvetica', 'bold').setFontSize(9).text(item.caption, x, this.y);
+        this.doc.addImage(item.dataUrl, 'PNG', x, this.y + 2, width, width * item.aspect);
+      });
+      this.y += height + 8;
+    }
+  }
+
+  // Cabeçalho e rodapé desenhados por último, quando o total de páginas é conhecido
+  finish(template: ReportTemplate, text: ReportText, subtitle: string) {
+    const pages = this.doc.getNumberOfPages();
+    const pageWidth = this.doc.internal.pageSize.getWidth();
+    let logoWidth = 0;
+    const logoHeight = 14;
+    if (template.logo) {
+      const { width, height } = this.doc.getImageProperties(template.logo);
+      logoWidth = (logoHeight * width) / height;
+    }
+
+    for (let page = 1; page <= pages; page++) {
+      this.doc.setPage(page);
+      if (template.logo) {
+        this.doc.addImage(template.logo, PAGE_MARGIN, PAGE_MARGIN - 2, logoWidth, logoHeight);
+      }
+      const textX = PAGE_MARGIN + (logoWidth > 0 ? logoWidth + 4 : 0);
+      this.doc.setFont('helvetica', 'bold').setFontSize(15).text(text.title, textX, PAGE_MARGIN + 4);
+      this.doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(110);
+      this.doc.text([template.clubName, subtitle].filter(Boolean).join(' - '), textX, PAGE_MARGIN + 10);
+      this.doc.text(text.page(page, pages), pageWidth - PAGE_MARGIN, this.doc.internal.pageSize.getHeight() - 8, {
+        align: 'right',
+      });
+      this.doc.setTextColor(0);
+      this.doc.setDrawColor(200).line(PAGE_MARGIN, PAGE_MARGIN + HEADER_HEIGHT - 8, pageWidth - PAGE_MARGIN, PAGE_MARGIN + HEADER_HEIGHT - 8);
+    }
+  }
+}
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+// Quadra vista de cima com as grades somadas ou os quiques, como PNG
+const renderCourtImage = (draw: (ctx: CanvasRenderingContext2D) => void) => {
+  const { width, height } = courtCanvasSize(REPORT_LAYOUT);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D indisponível para desenhar o relatório');
+
+  drawCourt(ctx, REPORT_LAYOUT);
+  draw(ctx);
+  drawCourtLines(ctx, REPORT_LAYOUT);
+  return { dataUrl: canvas.toDataURL('image/png'), aspect: height / width };
+};
+
+const heatmapImage = (grid: SparseCourtGrid) =>
+  renderCourtImage(ctx => drawCourtDensity(ctx, REPORT_LAYOUT, [grid], { opacity: 0.85 }));
+
+const playerRows = (input: MatchReportInput, text: ReportText, trackIds: number[]) =>
+  trackIds.map(trackId => {
+    const count = (predicate: (rally: Rally) => boolean) => String(input.rallies.filter(predicate).length);
+    const speeds = input.hits
+      .filter(hit => hit.trackId === trackId && hit.speed !== null)
+      .map(hit => hit.speed! * 3.6);
+    const averageSpeed = speeds.length > 0 ? (speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length).toFixed(0) : '-';
+
+    return [
+      text.player(trackId),
+      String(input.stats.shotsByPlayer[trackId] ?? 0),
+      count(rally => rally.pointWinner === trackId),
+      count(rally => rally.pointWinner === trackId && (rally.outcome === 'winner' || rally.outcome === 'ace')),
+      count(rally => rally.lastHitter === trackId && ERROR_OUTCOMES.includes(rally.outcome)),
+      count(rally => rally.server === trackId && rally.outcome === 'ace'),
+      count(rally => rally.server === trackId && rally.outcome === 'double-fault'),
+      averageSpeed,
+    ];
+  });
+
+/**
+ * Monta o relatório da partida em PDF no próprio navegador: resumo, números
+ * por jogador, golpes por tipo, lista de pontos, mapas de calor e de quiques,
+ * comparação com profissional e observações do treinador, no idioma do modelo.
+ */
+export const generateMatchReport = (input: MatchReportInput, template: ReportTemplate): Blob => {
+  const text = REPORT_TEXT[template.language];
+  const writer = new ReportWriter();
+  const trackIds = [
+    ...new Set([...Object.keys(input.stats.shotsByPlayer), ...Object.keys(input.courtHeatmaps.byPlayer)].map(Number)),
+  ].sort((a, b) => a - b);
+
+  writer.heading(text.summary);
+  writer.facts([
+    [text.video, input.title],
+    [text.generatedAt, input.analyzedAt.toLocaleString(text.locale)],
+    [text.duration, formatClock(input.duration)],
+    [text.frameRate, `${input.frameRate.toFixed(2)} fps`],
+    [text.samples, String(input.samples)],
+    [text.points, String(input.stats.points)],
+    [text.shots, String(input.stats.shots)],
+  ]);
+
+  writer.heading(text.playerStats);
+  if (trackIds.length === 0) {
+    writer.paragraph(text.noData);
+  } else {
+    writer.table(
+      [
+        { title: '', width: 0.16 },
+        { title: text.shots, width: 0.1, align: 'right' },
+        { title: text.pointsWon, width: 0.14, align: 'right' },
+        { title: text.winners, width: 0.11, align: 'right' },
+        { title: text.errors, width: 0.1, align: 'right' },
+        { title: text.aces, width: 0.09, align: 'right' },
+        { title: text.doubleFaults, width: 0.14, align: 'right' },
+        { title: text.averageSpeed, width: 0.16, align: 'right' },
+      ],
+      playerRows(input, text, trackIds)
+    );
+  }
+
+  const summary = summarizeShotTypes(input.hits);
+  const classifiedIds = Object.keys(summary).map(Number).sort((a, b) => a - b);
+  const usedTypes = SHOT_TYPES.filter(type => classifiedIds.some(id => summary[id][type].count > 0));
+  writer.heading(text.shotBreakdown);
+  if (usedTypes.length === 0) {
+    writer.paragraph(text.noData);
+  } else {
+    const columnWidth = 0.8 / classifiedIds.length;
+    writer.table(
+      [
+        { title: text.shotType, width: 0.2 },
+        ...classifiedIds.map(id => ({ title: text.player(id), width: columnWidth, align: 'right' as const })),
+      ],
+      usedTypes.map((type: ShotType) => [
+        text.shotTypes[type],
+        ...classifiedIds.map(id => {
+          const { count, successRate } = summary[id][type];
+          return successRate !== null ? `${count} (${successRate.toFixed(0)}%)` : String(count);
+        }),
+      ])
+    );
+  }
+
+  writer.heading(text.rallies);
+  if (input.rallies.length === 0) {
+    writer.paragraph(text.noData);
+  } else {
+    writer.table(
+      [
+        { title: '#', width: 0.08 },
+        { title: text.start, width: 0.14 },
+        { title: text.length, width: 0.14, align: 'right' },
+        { title: text.shots, width: 0.12, align: 'right' },
+        { title: text.outcome, width: 0.3 },
+        { title: text.pointWinner, width: 0.22 },
+      ],
+      input.rallies.map(rally => [
+        String(rally.index),
+        formatClock(rally.startTime),
+        `${rally.duration.toFixed(1)}s`,
+        String(rally.shots.length),
+        text.outcomes[rally.outcome],
+        rally.pointWinner !== null ? text.player(rally.pointWinner) : '-',
+      ])
+    );
+  }
+
+  writer.heading(text.heatmaps);
+  const heatmaps = Object.entries(input.courtHeatmaps.byPlayer)
+    .filter(([, grid]) => grid.samples > 0)
+    .map(([trackId, grid]) => ({ caption: text.player(Number(trackId)), ...heatmapImage(grid) }));
+  if (heatmaps.length === 0) writer.paragraph(text.noData);
+  else writer.images(heatmaps);
+
+  writer.heading(text.bounceMap);
+  if (input.bounces.length === 0) {
+    writer.paragraph(text.noData);
+  } else {
+    writer.images([
+      { caption: `${text.bounceMap} (${input.bounces.length})`, ...renderCourtImage(ctx => drawBounces(ctx, REPORT_LAYOUT, input.bounces)) },
+      { caption: text.heatmaps, ...heatmapImage(input.courtHeatmaps.bounces) },
+    ]);
+  }
+
+  if (template.coachNotes.trim()) {
+    writer.heading(text.coachNotes);
+    writer.paragraph(template.coachNotes.trim());
+  }
+
+  writer.finish(template, text, input.title);
+  return writer.doc.output('blob');
+};
@@ -0,0 +1,229 @@
+import { env } from '@huggingface/transformers';
+import { MODEL_DTYPES, ModelDataType } from './inferenceBackend';
+
+export type DetectorSize = 'n' | 's' | 'm' | 'c';
+
+// hub: baixa do Hugging Face; local: pasta /models servida com o app; folder: pasta escolhida pelo usuário
+export type ModelSource = 'hub' | 'local' | 'folder';
+
+export interface ModelEntry {
+  id: string;            // nome da pasta do modelo em /models
+  hubId: string | null;  // repositório no hub, quando existe uma versão publicada
+  label: string;
+}
+
+export interface ModelSettings {
+  source: ModelSource;
+  detectorSize: DetectorSize;
+}
+
+/**
+ * manifest.json na raiz da pasta de modelos, com o SHA-256 de cada arquivo:
+ * { "models": { "yolov9-c": { "files": { "config.json": "<sha256>", "onnx/model_fp16.onnx": "<sha256>" } } } }
+ * Cada modelo precisa listar os pesos de todos os dtypes (WEIGHT_FILES).
+ */
+export interface ModelManifest {
+  models: Record<string, { files: Record<string, string> }>;
+}
+
+export const DETECTOR_MODELS: Record<DetectorSize, ModelEntry> = {
+  n: { id: 'yolov9-t', hubId: null, label: 'Nano (YOLOv9-T)' },
+  s: { id: 'yolov9-s', hubId: null, label: 'Pequeno (YOLOv9-S)' },
+  m: { id: 'yolov9-m', hubId: null, label: 'Médio (YOLOv9-M)' },
+  c: { id: 'yolov9-c', hubId: 'Xenova/yolov9-c', label: 'Compacto (YOLOv9-C)' },
+};
+
+export const POSE_MODEL: ModelEntry = {
+  id: 'vitpose-base-simple',
+  hubId: 'onnx-community/vitpose-base-simple',
+  label: 'ViTPose base',
+};
+
+export const ALL_MODELS: ModelEntry[] = [...Object.values(DETECTOR_MODELS), POSE_MODEL];
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = { source: 'hub', detectorSize: 'c' };
+
+export const MODELS_PATH = '/models/';
+const CACHE_NAME = 'tennis-insight-models';
+const HASH_HEADER = 'x-sha256';
+const SETTINGS_KEY = 'tennis-insight:model-settings';
+
+// Esquema que o fetch não aceita: o transformers.js só busca aqui quando o arquivo falta no cache verificado
+const VERIFIED_PATH = 'verified-model:/';
+
+// Sufixo que o transformers.js acrescenta ao nome dos pesos de cada dtype
+const DTYPE_SUFFIXES: Record<ModelDataType, string> = { fp32: '', fp16: '_fp16', q8: '_quantized' };
+const WEIGHT_FILES = MODEL_DTYPES.map(dtype => `onnx/model${DTYPE_SUFFIXES[dtype]}.onnx`);
+
+const fileKey = (entry: ModelEntry, file: string) => `${MODELS_PATH}${entry.id}/${file}`;
+const verifiedKey = (entry: ModelEntry) => `${MODELS_PATH}${entry.id}/.verified.json`;
+
+export const modelIdFor = (entry: ModelEntry, source: ModelSource): string => {
+  if (source !== 'hub') return entry.id;
+  if (!entry.hubId) throw new Error(`${entry.label} não está publicado no hub; instale-o localmente`);
+  return entry.hubId;
+};
+
+export const loadModelSettings = (): ModelSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_MODEL_SETTINGS, ...JSON.parse(saved) } : DEFAULT_MODEL_SETTINGS;
+  } catch {
+    return DEFAULT_MODEL_SETTINGS;
+  }
+};
+
+export const saveModelSettings = (settings: ModelSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const sha256 = async (data: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Copia os arquivos de cada modelo para o Cache Storage depois de conferir o
+ * hash contra o manifesto. Arquivos já verificados com o mesmo hash não são
+ * lidos de novo. Um hash diferente aborta a instalação daquele modelo.
+ */
+const install = async (
+  entries: ModelEntry[],
+  manifest: ModelManifest,
+  readFile: (path: string) => Promise<ArrayBuffer>,
+  onProgress?: (message: string) => void
+) => {
+  const cache = await caches.open(CACHE_NAME);
+
+  for (const entry of entries) {
+    const files = manifest.models[entry.id]?.files;
+    if (!files) throw new Error(`${entry.label} não consta no manifesto de modelos`);
+    // O backend escolhido na hora de carregar decide o dtype, então todos precisam estar verificados
+    const missing = WEIGHT_FILES.filter(file => !files[file]);
+    if (missing.length > 0) {
+      throw new Error(`O manifesto de ${entry.label} não tem o hash de ${missing.join(', ')}`);
+    }
+
+    for (const [file, expected] of Object.entries(files)) {
+      const key = fileKey(entry, file);
+      const cached = await cache.match(key);
+      if (cached?.headers.get(HASH_HEADER) === expected.toLowerCase()) continue;
+
+      onProgress?.(`Verificando ${entry.id}/${file}...`);
+      const data = await readFile(`${entry.id}/${file}`);
+      const hash = await sha256(data);
+      if (hash !== expected.toLowerCase()) {
+        throw new Error(`Hash incorreto em ${entry.id}/${file}: o arquivo está corrompido ou é de outra versão`);
+      }
+      await cache.put(key, new Response(data, { headers: { [HASH_HEADER]: hash } }));
+    }
+
+    await cache.put(verifiedKey(entry), new Response(JSON.stringify(Object.keys(files))));
+  }
+};
+
+// Lê o manifesto e os modelos da pasta /models servida junto com o app
+export const installFromServer = async (entries: ModelEntry[], onProgress?: (message: string) => void) => {
+  const response = await fetch(`${MODELS_PATH}manifest.json`, { cache: 'no-store' });
+  if (!response.ok) throw new Error(`Manifesto de modelos não encontrado em ${MODELS_PATH}`);
+  const manifest: ModelManifest = await response.json();
+
+  const available = entries.filter(entry => manifest.models[entry.id]);
+  if (available.length === 0) throw new Error(`Nenhum modelo conhecido em ${MODELS_PATH}`);
+
+  await install(available, manifest, async path => {
+    const file = await fetch(`${MODELS_PATH}${path}`, { cache: 'no-store' });
+    if (!file.ok) throw new Error(`Arquivo ${path} ausente em ${MODELS_PATH}`);
+    return file.arrayBuffer();
+  }, onProgress);
+
+  return available;
+};
+
+// Lê o manifesto e os modelos de uma pasta escolhida pelo usuário (<input webkitdirectory>)
+export const installFromFolder = async (
+  files: FileList,
+  entries: ModelEntry[],
+  onProgress?: (message: string) => void
+) => {
+  // webkitRelativePath começa pelo nome da pasta escolhida, que é descartado
+  const byPath = new Map<string, File>();
+  for (const file of Array.from(files)) {
+    byPath.set(file.webkitRelativePath.split('/').slice(1).join('/'), file);
+  }
+
+  const manifestFile = byPath.get('manifest.json');
+  if (!manifestFile) throw new Error('A pasta escolhida não tem manifest.json');
+  const manifest: ModelManifest = JSON.parse(await manifestFile.text());
+
+  const available = entries.filter(entry => manifest.models[entry.id]);
+  if (available.length === 0) throw new Error('Nenhum modelo conhecido na pasta escolhida');
+
+  await install(available, manifest, async path => {
+    const file = byPath.get(path);
+    if (!file) throw new Error(`Arquivo ${path} ausente na pasta escolhida`);
+    return file.arrayBuffer();
+  }, onProgress);
+
+  return available;
+};
+
+export const isInstalled = async (entry: ModelEntry): Promise<boolean> => {
+  if (typeof caches === 'undefined') return false;
+  const cache = await caches.open(CACHE_NAME);
+  const verified = await cache.match(verifiedKey(entry));
+  if (!verified) return false;
+  const files: string[] = await verified.json();
+  const matches = await Promise.all(files.map(file => cache.match(fileKey(entry, file))));
+  return matches.every(Boolean);
+};
+
+export const clearInstalledModels = () => caches.delete(CACHE_NAME);
+
+// Antes de carregar offline: confere /models de novo e exige que os modelos estejam verificados
+export const ensureModelsInstalled = async (settings: ModelSettings, withPose: boolean) => {
+  if (settings.source === 'hub') return;
+
+  const required = [DETECTOR_MODELS[settings.detectorSize], ...(withPose ? [POSE_MODEL] : [])];
+  if (settings.source === 'local') {
+    await installFromServer(required);
+  }
+  for (const entry of required) {
+    if (!(await isInstalled(entry))) {
+      throw new Error(`${entry.label} não está instalado; verifique as configurações de modelos`);
+    }
+  }
+};
+
+/**
+ * Visão somente leitura do cache verificado, no formato que o transformers.js
+ * espera. Numa falta, ele tenta buscar o arquivo em VERIFIED_PATH, o que
+ * sempre falha: o arquivo conta como ausente e nada sem hash é carregado.
+ */
+const verifiedModelCache = {
+  async match(request: string): Promise<Response | undefined> {
+    if (!request.startsWith(VERIFIED_PATH)) return undefined;
+    const cache = await caches.open(CACHE_NAME);
+    return cache.match(`${MODELS_PATH}${request.slice(VERIFIED_PATH.length)}`);
+  },
+  // Só arquivos conferidos contra o manifesto entram no cache
+  async put() {},
+};
+
+// Aponta o transformers.js para a origem escolhida; deve rodar antes de carregar os modelos
+export const configureModelLoading = (source: ModelSource) => {
+  if (source === 'hub') {
+    env.allowLocalModels = false;
+    env.allowRemoteModels = true;
+    env.useCustomCache = false;
+    env.useBrowserCache = true;
+    return;
+  }
+
+  env.allowLocalModels = true;
+  env.allowRemoteModels = false;
+  env.localModelPath = VERIFIED_PATH;
+  env.useBrowserCache = false;
+  env.useCustomCache = true;
+  env.customCache = verifiedModelCache;
+};
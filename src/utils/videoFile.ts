@@ -0,0 +1,110 @@
+// Formatos de vídeo aceitos para upload local
+export const ACCEPTED_VIDEO_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+};
+
+export const VIDEO_LIMITS = {
+  maxDuration: 30 * 60, // segundos
+  minWidth: 320,
+  minHeight: 240,
+  maxWidth: 3840,
+  maxHeight: 2160,
+};
+
+export interface VideoValidationResult {
+  valid: boolean;
+  reason?: string;
+}
+
+export const getVideoMimeType = (file: File): string | null => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (file.type && Object.values(ACCEPTED_VIDEO_TYPES).includes(file.type)) {
+    return file.type;
+  }
+  return ACCEPTED_VIDEO_TYPES[extension] ?? null;
+};
+
+// Só a extensão ou o tipo decidem aqui; se o navegador decodifica, quem diz é o carregamento do vídeo
+export const validateVideoFile = (file: File): VideoValidationResult => {
+  if (!getVideoMimeType(file)) {
+    return { valid: false, reason: 'Formato não suportado. Use MP4, WebM ou MOV.' };
+  }
+  return { valid: true };
+};
+
+/**
+ * Motivo exibido quando o vídeo não carregou. canPlayType serve só de pista:
+ * Chrome e Firefox respondem '' para video/quicktime e mesmo assim reproduzem
+ * a maioria dos .mov em H.264.
+ */
+export const decodeFailureReason = (file: File, video: HTMLVideoElement): string => {
+  const mimeType = getVideoMimeType(file);
+  return mimeType && video.canPlayType(mimeType) === ''
+    ? `Seu navegador não reproduz vídeos ${mimeType} com este codec.`
+    : 'Não foi possível decodificar o vídeo (codec não suportado).';
+};
+
+export const validateVideoMetadata = (video: HTMLVideoElement): VideoValidationResult => {
+  const { duration, videoWidth, videoHeight } = video;
+
+  // Sem dimensões significa que a trilha de vídeo não pôde ser decodificada (ex.: HEVC sem suporte)
+  if (!videoWidth || !videoHeight) {
+    return { valid: false, reason: 'Não foi possível decodificar a trilha de vídeo (codec não suportado).' };
+  }
+
+  if (!Number.isFinite(duration) || duration <= 0) {
+    return { valid: false, reason: 'Não foi possível determinar a duração do vídeo.' };
+  }
+
+  if (duration > VIDEO_LIMITS.maxDuration) {
+    return {
+      valid: false,
+      reason: `O vídeo tem ${Math.round(duration / 60)} min; o máximo é ${VIDEO_LIMITS.maxDuration / 60} min.`,
+    };
+  }
+
+  if (videoWidth < VIDEO_LIMITS.minWidth || videoHeight < VIDEO_LIMITS.minHeight) {
+    return {
+      valid: false,
+      reason: `Resolução ${videoWidth}x${videoHeight} muito baixa (mínimo ${VIDEO_LIMITS.minWidth}x${VIDEO_LIMITS.minHeight}).`,
+    };
+  }
+
+  if (videoWidth > VIDEO_LIMITS.maxWidth || videoHeight > VIDEO_LIMITS.maxHeight) {
+    return {
+      valid: false,
+      reason: `Resolução ${videoWidth}x${videoHeight} acima do máximo suportado (${VIDEO_LIMITS.maxWidth}x${VIDEO_LIMITS.maxHeight}).`,
+    };
+  }
+
+  return { valid: true };
+};
+
+// Aguarda os metadados e o primeiro frame do vídeo, rejeitando em caso de erro de decodificação
+export const waitForVideoData = (video: HTMLVideoElement): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      resolve();
+      return;
+    }
+
+    const cleanup = () => {
+      video.removeEventListener('loadeddata', onLoaded);
+      video.removeEventListener('error', onError);
+    };
+    const onLoaded = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(video.error?.message || 'Video could not be decoded'));
+    };
+
+    video.addEventListener('loadeddata', onLoaded);
+    video.addEventListener('error', onError);
+  });
+};
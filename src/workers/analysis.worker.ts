@@ -0,0 +1,120 @@
+import { isAbortError } from '@/utils/abort';
+import { TennisAnalysis, VideoProcessor } from '@/utils/VideoProcessor';
+import { AnalysisWorkerRequest, AnalysisWorkerResponse, VideoAnalysisResult } from './analysisProtocol';
+
+// Detecção, rastreamento e estatísticas rodam aqui, fora da thread da interface
+const scope = self as unknown as Worker;
+const processor = new VideoProcessor();
+
+let canvas: OffscreenCanvas | null = null;
+let results: TennisAnalysis[] = [];
+let frameRate = 30;
+// Trocado a cada cancelamento; cada pedido usa o sinal vigente quando chegou
+let controller = new AbortController();
+
+const respond = (response: AnalysisWorkerResponse) => scope.postMessage(response);
+
+const summarize = (analyses: TennisAnalysis[], width: number, height: number, frameRate: number): VideoAnalysisResult => {
+  // Replays, closes e artes gráficas ficam fora dos mapas de calor e das estatísticas
+  const play = analyses.filter(analysis => analysis.scene === 'play');
+  if (play.length === 0) throw new Error('Nenhum trecho do vídeo mostra a quadra pela câmera principal');
+
+  // Quiques e marcação de linhas a partir da trilha da bola
+  const bounces = processor.detectBounces(play);
+  const heatmaps = processor.collectHeatmapSeries(play);
+
+  // Golpes atribuídos aos jogadores, pontos e estatísticas
+  const hits = processor.detectHits(play, bounces);
+  const rallies = processor.segmentPoints(play, bounces, hits);
+  processor.classifyShots(play, rallies, bounces, hits);
+  processor.measureStrokes(play, hits);
+  // Depois da classificação, para separar os mapas por tipo de golpe
+  const courtHeatmaps = processor.buildCourtHeatmaps(play, rallies, hits, bounces);
+  const stats = processor.calculateStats(play, rallies, hits);
+
+  return {
+    frameRate,
+    analyses,
+    width,
+    height,
+    heatmaps,
+    courtHeatmaps,
+    bounces,
+    hits,
+    rallies,
+    stats,
+    backends: { detector: processor.getBackendReport()!, pose: processor.getPoseBackendReport() },
+  };
+};
+
+const handle = async (request: AnalysisWorkerRequest, signal: AbortSignal): Promise<AnalysisWorkerResponse | null> => {
+  switch (request.type) {
+    case 'initialize':
+      await processor.initialize(request.models, signal);
+      return { type: 'initialized', backend: processor.getBackendReport()! };
+
+    case 'start':
+      canvas = new OffscreenCanvas(request.width, request.height);
+      results = [...request.resume];
+      frameRate = request.frameRate;
+      processor.setManualCalibration(request.options.calibration);
+      processor.setPoseEstimation(request.options.poseEnabled);
+      await processor.beginVideo(signal);
+      if (request.resumeState) processor.resumeVideo(request.resume, request.resumeState);
+      return { type: 'started' };
+
+    case 'frame': {
+      const { image, frame, sourceFrame, timestamp } = request;
+      try {
+        if (!canvas) throw new Error('Analysis not started');
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) throw new Error('Canvas context not available');
+        ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+        const analysis = await processor.processFrame(canvas, frame, timestamp, sourceFrame, signal);
+        results.push(analysis);
+        return { type: 'frame', frame, analysis };
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        // Um frame com erro não interrompe a análise do vídeo
+        console.error(`Erro no frame ${frame}:`, error);
+        return { type: 'frame', frame, analysis: null };
+      } finally {
+        image.close();
+      }
+    }
+
+    case 'snapshot':
+      if (!canvas) throw new Error('Analysis not started');
+      return { type: 'snapshot', state: processor.trackingState() };
+
+    case 'finish': {
+      if (!canvas) throw new Error('Analysis not started');
+      // Sem nenhum frame analisado não há estatística possível: falha em vez de números vazios
+      if (results.length === 0) throw new Error('Nenhum frame do vídeo pôde ser analisado');
+      const analyses = processor.finishVideo(results);
+      const result = summarize(analyses, canvas.width, canvas.height, frameRate);
+      canvas = null;
+      results = [];
+      return { type: 'result', result };
+    }
+
+    case 'cancel':
+      controller.abort();
+      controller = new AbortController();
+      canvas = null;
+      results = [];
+      return null;
+  }
+};
+
+scope.onmessage = async (event: MessageEvent<AnalysisWorkerRequest>) => {
+  try {
+    const response = await handle(event.data, controller.signal);
+    if (response) respond(response);
+  } catch (error) {
+    const aborted = isAbortError(error);
+    if (!aborted) console.error('Erro no worker de análise:', error);
+    respond({ type: 'error', message: error instanceof Error ? error.message : String(error), aborted });
+  }
+};
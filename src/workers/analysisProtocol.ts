@@ -0,0 +1,61 @@
+import { BounceEvent } from '@/utils/BounceDetector';
+import { CourtCalibration } from '@/utils/CourtDetector';
+import { HitEvent } from '@/utils/HitDetector';
+import { HeatmapSeries } from '@/utils/heatmap';
+import { CourtHeatmaps } from '@/utils/CourtHeatmap';
+import { BackendReport } from '@/utils/inferenceBackend';
+import { ModelSettings } from '@/utils/modelRegistry';
+import { Rally } from '@/utils/PointSegmenter';
+import { TennisAnalysis, TrackingState, VideoProcessor } from '@/utils/VideoProcessor';
+
+export interface AnalysisOptions {
+  poseEnabled: boolean;
+  calibration: CourtCalibration | null; // calibração manual; null usa a detecção automática
+}
+
+export type VideoStats = ReturnType<VideoProcessor['calculateStats']>;
+
+// Tudo o que o worker devolve ao fim da análise de um vídeo
+export interface VideoAnalysisResult {
+  frameRate: number;          // taxa de quadros real do vídeo analisado
+  analyses: TennisAnalysis[];
+  width: number;              // resolução dos frames analisados
+  height: number;
+  heatmaps: HeatmapSeries[];       // posições em pixels, para o mapa sobre um frame
+  courtHeatmaps: CourtHeatmaps;    // grades em metros no plano da quadra
+  bounces: BounceEvent[];
+  hits: HitEvent[];
+  rallies: Rally[];
+  stats: VideoStats;
+  backends: { detector: BackendReport; pose: BackendReport | null };
+}
+
+/**
+ * Mensagens da thread principal para o worker. Cada uma recebe exatamente uma
+ * resposta, exceto `cancel`: ele não tem resposta própria e faz o pedido em
+ * andamento responder com um erro `aborted`.
+ */
+export type AnalysisWorkerRequest =
+  | { type: 'initialize'; models: ModelSettings }
+  | {
+      type: 'start';
+      width: number;
+      height: number;
+      frameRate: number;
+      options: AnalysisOptions;
+      resume: TennisAnalysis[]; // frames já analisados de um checkpoint; vazio numa análise nova
+      resumeState: TrackingState | null; // estado dos rastreadores salvo no checkpoint; null numa análise nova
+    }
+  | { type: 'frame'; frame: number; sourceFrame: number; timestamp: number; image: ImageBitmap | VideoFrame }
+  | { type: 'snapshot' } // estado dos rastreadores após o último frame, para o checkpoint
+  | { type: 'finish' }
+  | { type: 'cancel' };
+
+// Respostas do worker; `error` pode responder a qualquer pedido
+export type AnalysisWorkerResponse =
+  | { type: 'initialized'; backend: BackendReport }
+  | { type: 'started' }
+  | { type: 'frame'; frame: number; analysis: TennisAnalysis | null }
+  | { type: 'snapshot'; state: TrackingState }
+  | { type: 'result'; result: VideoAnalysisResult }
+  | { type: 'error'; message: string; aborted: boolean };